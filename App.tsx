@@ -1,22 +1,120 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Onboarding from './components/Onboarding';
 import LessonMap from './components/LessonMap';
 import LiveSession from './components/LiveSession';
-import { UserProfile, Level, Subject, Step } from './types';
+import HistoryScreen from './components/HistoryScreen';
+import ProfileScreen from './components/ProfileScreen';
+import SettingsScreen from './components/SettingsScreen';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ReportCard from './components/ReportCard';
+import { UserProfile, Level, TARGET_LANGUAGE_CODES, Subject, Step, SessionTranscript, SessionPlan, VocabularyCard, LearnerMemory, LessonReport } from './types';
+import { createProfileId, loadProfileIds, removeProfile, saveProfile, saveProfileIds } from './utils/profileStorage';
+import { appendSession, clearHistory } from './utils/historyStorage';
+import { clearDeck, loadDeck, saveDeck } from './utils/deckStorage';
+import { clearLearnerMemory, loadLearnerMemory, saveLearnerMemory } from './utils/memoryStorage';
+import { addLearnerNotes, createLearnerMemory, summarizeLearnerMemory } from './utils/learnerMemory';
+import { addWordsToDeck, applyCardGrades, getDueCards, normalizeTerm } from './utils/srs';
+import { awardXp, calculateReviewXp, calculateStepXp, createGamificationState, GEMS_PER_COMPLETED_STEP, settleStreak, XP_PER_TESTED_OUT_STEP } from './utils/gamification';
+import { getCharacterForStep, getCurriculum } from './constants';
+import { createGeminiTransport, LiveTransport } from './utils/liveTransport';
+import { createScriptedTransport } from './utils/scriptedTransport';
+import { getDemoScript } from './utils/demoScripts';
+import { createVoicePreviewer } from './utils/voicePreview';
+import { createWordLookup } from './utils/wordLookup';
+import { createLanguageProgress } from './utils/languageProgress';
+import { buildLessonReport } from './utils/reportCard';
 
-interface ActiveSession {
-  level: Level;
-  subject: Subject;
-  step: Step;
+type Screen = 'map' | 'history' | 'profile' | 'settings';
+
+// The report card shown after a completed lesson, until the learner continues to the map
+interface PendingReport {
+  title: string;
+  report: LessonReport;
+  fileBaseName: string;
 }
 
+const MAX_PRONUNCIATION_SCORES_PER_STEP = 30;
+
+// Adds XP and gems to the profile, in the learner's own calendar day
+const withReward = (profile: UserProfile, xp: number, gems = 0): UserProfile => ({
+  ...profile,
+  gamification: awardXp(profile.gamification, xp, gems, Date.now(), profile.timeZone),
+});
+
+// Marks steps done, and any subject whose steps are now all done (step lists vary per subject)
+const markStepsCompleted = (profile: UserProfile, subject: Subject, steps: Step[]): UserProfile => {
+  const completedSteps = [...profile.completedSteps];
+  for (const step of steps) {
+    const compositeId = `${subject.id}-${step.id}`;
+    if (!completedSteps.includes(compositeId)) completedSteps.push(compositeId);
+  }
+  const completedSubjects = [...profile.completedSubjects];
+  const subjectDone = subject.steps.every(s => completedSteps.includes(`${subject.id}-${s.id}`));
+  if (subjectDone && !completedSubjects.includes(subject.id)) completedSubjects.push(subject.id);
+  return { ...profile, completedSteps, completedSubjects };
+};
+
+// Back to a fresh start at the same level in every language, keeping the learner's name and settings
+const resetProgress = (profile: UserProfile): UserProfile => ({
+  ...profile,
+  completedSubjects: [],
+  completedSteps: [],
+  pronunciationScores: {},
+  testedOutSubjects: [],
+  otherLanguages: Object.fromEntries(Object.entries(profile.otherLanguages).map(([code, progress]) => [
+    code,
+    { ...createLanguageProgress(), currentLevel: progress!.currentLevel, coachOverrides: progress!.coachOverrides },
+  ])),
+  gamification: { ...createGamificationState(), dailyGoalXp: profile.gamification.dailyGoalXp },
+});
+
+// Appends the session's average pronunciation score to the step's history on the profile
+const addPronunciationScore = (profile: UserProfile, stepCompositeId: string, transcript: SessionTranscript): UserProfile => {
+  const attempts = transcript.pronunciation ?? [];
+  if (attempts.length === 0) return profile;
+  const score = Math.round(attempts.reduce((sum, a) => sum + a.score, 0) / attempts.length);
+  const previous = profile.pronunciationScores[stepCompositeId] ?? [];
+  return {
+    ...profile,
+    pronunciationScores: {
+      ...profile.pronunciationScores,
+      [stepCompositeId]: [...previous, { at: transcript.endedAt, score, attempts: attempts.length }].slice(-MAX_PRONUNCIATION_SCORES_PER_STEP),
+    },
+  };
+};
+
 const App: React.FC = () => {
   const [apiKey, setApiKey] = useState<string | null>(null);
   const [isKeySelecting, setIsKeySelecting] = useState(true);
+  const [isOffline, setIsOffline] = useState(false);
   
   // App State
+  // Shared devices keep several learners; everything below belongs to the active one
+  const [profileIds, setProfileIds] = useState<string[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isAddingProfile, setIsAddingProfile] = useState(false);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [activeSession, setActiveSession] = useState<SessionPlan | null>(null);
+  const [pendingReport, setPendingReport] = useState<PendingReport | null>(null);
+  const [deck, setDeck] = useState<VocabularyCard[]>([]);
+  const [learnerMemory, setLearnerMemory] = useState<LearnerMemory>(createLearnerMemory);
+  const [isHydrating, setIsHydrating] = useState(true);
+  const [screen, setScreen] = useState<Screen>('map');
+
+  // Restore saved profiles so a refresh doesn't send learners back through onboarding
+  useEffect(() => {
+    loadProfileIds()
+      .then(setProfileIds)
+      .catch(e => console.error("Failed to load saved profiles", e))
+      .finally(() => setIsHydrating(false));
+  }, []);
+
+  // Persist every profile change (onboarding, completed steps, subjects)
+  useEffect(() => {
+    if (isHydrating || !userProfile || !activeProfileId) return;
+    saveProfile(activeProfileId, userProfile).catch(e => console.error("Failed to save profile", e));
+  }, [userProfile, activeProfileId, isHydrating]);
+
 
   useEffect(() => {
     const initKey = async () => {
@@ -41,46 +139,213 @@ const App: React.FC = () => {
     }
   };
 
-  const handleProfileComplete = (profile: UserProfile) => {
+  // Offline demo: lessons replay a scripted coach instead of calling the Live API
+  const handleOfflineDemo = () => {
+    setIsOffline(true);
+    setApiKey('OFFLINE');
+    setIsKeySelecting(false);
+  };
+
+  // Offline, each kind of session replays its own demo script
+  const createTransport = (plan: SessionPlan): LiveTransport | null => {
+    if (isOffline) return createScriptedTransport(getDemoScript(plan));
+    return apiKey ? createGeminiTransport(apiKey) : null;
+  };
+
+  const transport = useMemo(
+    () => activeSession ? createTransport(activeSession) : null,
+    [apiKey, isOffline, activeSession]
+  );
+
+  const voicePreviewer = useMemo(() => createVoicePreviewer(isOffline ? null : apiKey), [apiKey, isOffline]);
+  const wordLookup = useMemo(() => createWordLookup(isOffline ? null : apiKey), [apiKey, isOffline]);
+
+  const activateProfile = (profileId: string, profile: UserProfile) => {
+    setActiveProfileId(profileId);
     setUserProfile(profile);
+    setScreen('map');
+  };
+
+  // Each target language has its own deck, so reload it when the learner switches
+  const targetLanguage = userProfile?.targetLanguage;
+  useEffect(() => {
+    setDeck([]);
+    if (!activeProfileId || !targetLanguage) return;
+    let isCurrent = true;
+    loadDeck(activeProfileId, targetLanguage)
+      .then(cards => { if (isCurrent) setDeck(cards); })
+      .catch(e => console.error("Failed to load vocabulary deck", e));
+    return () => { isCurrent = false; };
+  }, [activeProfileId, targetLanguage]);
+
+  // The coach's memory of the learner is per target language too
+  useEffect(() => {
+    setLearnerMemory(createLearnerMemory());
+    if (!activeProfileId || !targetLanguage) return;
+    let isCurrent = true;
+    loadLearnerMemory(activeProfileId, targetLanguage)
+      .then(memory => { if (isCurrent) setLearnerMemory(memory); })
+      .catch(e => console.error("Failed to load learner memory", e));
+    return () => { isCurrent = false; };
+  }, [activeProfileId, targetLanguage]);
+
+  // What the lesson coach is told about this learner; see utils/learnerMemory.ts
+  const completedSubjects = userProfile?.completedSubjects;
+  const learnerMemorySummary = useMemo(() => {
+    if (!targetLanguage) return '';
+    const titles = getCurriculum(targetLanguage)
+      .flatMap(level => level.subjects)
+      .filter(subject => completedSubjects?.includes(subject.id))
+      .map(subject => subject.title);
+    return summarizeLearnerMemory(learnerMemory, deck, titles);
+  }, [learnerMemory, deck, targetLanguage, completedSubjects]);
+
+  // Spend any streak freezes owed for days missed since the last visit
+  const handleSelectProfile = (profileId: string, profile: UserProfile) => {
+    activateProfile(profileId, { ...profile, gamification: settleStreak(profile.gamification, Date.now(), profile.timeZone) });
+  };
+
+  const handleSwitchProfile = () => {
+    setActiveProfileId(null);
+    setUserProfile(null);
+  };
+
+  const handleRemoveProfile = (profileId: string) => {
+    removeProfile(profileId)
+      .then(setProfileIds)
+      .catch(e => console.error("Failed to remove profile", e));
+  };
+
+  const handleProfileComplete = (profile: UserProfile) => {
+    const profileId = createProfileId();
+    const ids = [...profileIds, profileId];
+    setProfileIds(ids);
+    setIsAddingProfile(false);
+    saveProfileIds(ids).catch(e => console.error("Failed to save profile list", e));
+    activateProfile(profileId, profile);
   };
 
   const handleStepSelect = (level: Level, subject: Subject, step: Step) => {
-    setActiveSession({ level, subject, step });
+    setActiveSession({ kind: 'lesson', level, subject, step });
   };
 
-  const handleSessionComplete = () => {
-      if (!userProfile || !activeSession) return;
+  const handleTestOut = (level: Level, subject?: Subject) => {
+    setActiveSession({ kind: 'testOut', level, subject });
+  };
 
-      // Mark step as completed
-      const stepCompositeId = `${activeSession.subject.id}-${activeSession.step.id}`;
-      const newCompletedSteps = [...userProfile.completedSteps];
-      if (!newCompletedSteps.includes(stepCompositeId)) {
-          newCompletedSteps.push(stepCompositeId);
-      }
+  const dueCards = useMemo(() => getDueCards(deck, Date.now()), [deck]);
+  const deckTerms = useMemo(() => new Set(deck.map(card => normalizeTerm(card.term))), [deck]);
 
-      // Check if Subject is completed (simple check for demo: if last step is done)
-      // Real app: Check if ALL steps in subject are in newCompletedSteps
-      const newCompletedSubjects = [...userProfile.completedSubjects];
-      if (activeSession.step.order === 6) { // Last step
-         if (!newCompletedSubjects.includes(activeSession.subject.id)) {
-             newCompletedSubjects.push(activeSession.subject.id);
-         }
-      }
+  const handleStartReview = () => {
+    if (dueCards.length > 0) setActiveSession({ kind: 'review', cards: dueCards });
+  };
+
+  // Words the coach saved and cards it graded count even if the learner leaves early
+  const updateDeck = (transcript: SessionTranscript) => {
+    const now = Date.now();
+    const next = applyCardGrades(addWordsToDeck(deck, transcript.capturedWords ?? [], now), transcript.cardGrades ?? [], now);
+    if (next === deck || !activeProfileId || !userProfile) return;
+    setDeck(next);
+    saveDeck(activeProfileId, userProfile.targetLanguage, next).catch(e => console.error("Failed to save vocabulary deck", e));
+  };
+
+  // Patterns the coach noted count even if the learner leaves early, like saved words
+  const updateLearnerMemory = (transcript: SessionTranscript) => {
+    const next = addLearnerNotes(learnerMemory, transcript.learnerNotes ?? [], Date.now());
+    if (next === learnerMemory || !activeProfileId || !userProfile) return;
+    setLearnerMemory(next);
+    saveLearnerMemory(activeProfileId, userProfile.targetLanguage, next).catch(e => console.error("Failed to save learner memory", e));
+  };
+
+  // Keep the transcript so the learner can reread it from the history screen
+  const recordSession = (session: SessionPlan & { kind: 'lesson' }, transcript: SessionTranscript, completed: boolean, report?: LessonReport) => {
+      if (transcript.messages.length === 0 || !activeProfileId || !userProfile) return;
+      appendSession(activeProfileId, userProfile.targetLanguage, {
+          id: `${transcript.startedAt}-${session.subject.id}-${session.step.id}`,
+          compositeStepId: `${session.subject.id}-${session.step.id}`,
+          levelId: session.level.id,
+          subjectId: session.subject.id,
+          subjectTitle: session.subject.title,
+          stepId: session.step.id,
+          stepTitle: session.step.title,
+          stepType: session.step.type,
+          characterId: getCharacterForStep(session.step.type, userProfile.targetLanguage, userProfile.coachOverrides).id,
+          startedAt: transcript.startedAt,
+          durationMs: transcript.endedAt - transcript.startedAt,
+          completed,
+          messages: transcript.messages,
+          assessment: transcript.assessment,
+          promptVersion: transcript.promptVersion,
+          report,
+      }).catch(e => console.error("Failed to save session history", e));
+  };
 
-      setUserProfile({
-          ...userProfile,
-          completedSteps: newCompletedSteps,
-          completedSubjects: newCompletedSubjects
-      });
+  const handleSessionComplete = (transcript: SessionTranscript) => {
+      if (!userProfile || !activeSession) return;
+      updateDeck(transcript);
+      updateLearnerMemory(transcript);
+
+      if (activeSession.kind === 'lesson') {
+          const xp = calculateStepXp(activeSession.step.type, transcript.assessment);
+          const report = buildLessonReport(transcript, xp);
+          recordSession(activeSession, transcript, true, report);
+          setPendingReport({
+              title: `${activeSession.subject.title} · ${activeSession.step.title}`,
+              report,
+              fileBaseName: `linguoflow-report-${activeSession.subject.id}-${activeSession.step.id}-${new Date(transcript.startedAt).toISOString().slice(0, 10)}`,
+          });
+          const stepCompositeId = `${activeSession.subject.id}-${activeSession.step.id}`;
+          // Replaying a finished step still earns XP, but gems only come the first time
+          const isFirstCompletion = !userProfile.completedSteps.includes(stepCompositeId);
+          const rewarded = withReward(userProfile, xp, isFirstCompletion ? GEMS_PER_COMPLETED_STEP : 0);
+          setUserProfile(markStepsCompleted(
+              addPronunciationScore(rewarded, stepCompositeId, transcript),
+              activeSession.subject,
+              [activeSession.step]
+          ));
+      } else if (activeSession.kind === 'testOut') {
+          // A passed test-out completes every step of the subject, or of every subject in the level
+          const subjects: Subject[] = activeSession.subject ? [activeSession.subject] : activeSession.level.subjects;
+          let profile: UserProfile = userProfile;
+          for (const subject of subjects) profile = markStepsCompleted(profile, subject, subject.steps);
+          const testedOut = subjects.map(s => s.id).filter(id => !profile.testedOutSubjects.includes(id));
+          const newlyCompleted = profile.completedSteps.length - userProfile.completedSteps.length;
+          profile = withReward(profile, newlyCompleted * XP_PER_TESTED_OUT_STEP);
+          setUserProfile({ ...profile, testedOutSubjects: [...profile.testedOutSubjects, ...testedOut] });
+      } else if (activeSession.kind === 'review') {
+          setUserProfile(withReward(userProfile, calculateReviewXp(transcript.cardGrades ?? [])));
+      }
 
       setActiveSession(null);
   };
 
-  const handleExitLesson = () => {
+  const handleExitLesson = (transcript: SessionTranscript) => {
+    updateDeck(transcript);
+    updateLearnerMemory(transcript);
+    if (activeSession?.kind === 'lesson') {
+      recordSession(activeSession, transcript, false);
+      if (userProfile) {
+        setUserProfile(addPronunciationScore(userProfile, `${activeSession.subject.id}-${activeSession.step.id}`, transcript));
+      }
+    } else if (activeSession?.kind === 'review' && userProfile) {
+      // Cards graded before leaving still count
+      setUserProfile(withReward(userProfile, calculateReviewXp(transcript.cardGrades ?? [])));
+    }
     setActiveSession(null);
   };
 
+  const handleResetProgress = () => {
+    if (!userProfile || !activeProfileId) return;
+    setUserProfile(resetProgress(userProfile));
+    setDeck([]);
+    setLearnerMemory(createLearnerMemory());
+    Promise.all(TARGET_LANGUAGE_CODES.flatMap(code => [
+      clearHistory(activeProfileId, code),
+      clearDeck(activeProfileId, code),
+      clearLearnerMemory(activeProfileId, code),
+    ])).catch(e => console.error("Failed to clear saved progress", e));
+  };
+
   if (isKeySelecting) {
      return (
        <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
@@ -93,6 +358,12 @@ const App: React.FC = () => {
            >
              Select API Key
            </button>
+           <button
+             onClick={handleOfflineDemo}
+             className="w-full mt-3 bg-slate-100 text-slate-700 py-3 px-6 rounded-xl font-medium hover:bg-slate-200 transition"
+           >
+             Try Offline Demo
+           </button>
            <p className="mt-4 text-xs text-slate-400">
              See <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="underline hover:text-indigo-500">billing documentation</a> for details.
            </p>
@@ -101,18 +372,33 @@ const App: React.FC = () => {
      );
   }
 
-  if (!apiKey) return null;
+  if (isHydrating) return null;
+
+  // View: Profile Switcher
+  if (!userProfile && profileIds.length > 0 && !isAddingProfile) {
+    return (
+      <div className="h-full w-full">
+        <ProfileSwitcher
+          profileIds={profileIds}
+          onSelect={handleSelectProfile}
+          onAdd={() => setIsAddingProfile(true)}
+          onRemove={handleRemoveProfile}
+        />
+      </div>
+    );
+  }
 
   // View: Live Session
-  if (userProfile && activeSession) {
+  if (userProfile && activeSession && transport) {
     return (
       <div className="h-full w-full">
         <LiveSession 
           user={userProfile}
-          level={activeSession.level}
-          subject={activeSession.subject}
-          step={activeSession.step}
-          apiKey={apiKey}
+          plan={activeSession}
+          transport={transport}
+          learnerMemory={learnerMemorySummary}
+          wordLookup={wordLookup}
+          deckTerms={deckTerms}
           onDisconnect={handleExitLesson}
           onComplete={handleSessionComplete}
         />
@@ -120,6 +406,55 @@ const App: React.FC = () => {
     );
   }
 
+  // View: Report card after a completed lesson
+  if (userProfile && pendingReport) {
+    return (
+      <div className="h-full w-full">
+        <ReportCard
+          user={userProfile}
+          title={pendingReport.title}
+          report={pendingReport.report}
+          fileBaseName={pendingReport.fileBaseName}
+          onContinue={() => setPendingReport(null)}
+        />
+      </div>
+    );
+  }
+
+  // View: Session History
+  if (userProfile && activeProfileId && screen === 'history') {
+    return (
+        <div className="h-full w-full">
+            <HistoryScreen profileId={activeProfileId} user={userProfile} onBack={() => setScreen('map')} />
+        </div>
+    );
+  }
+
+  // View: Profile
+  if (userProfile && activeProfileId && screen === 'profile') {
+    return (
+        <div className="h-full w-full">
+            <ProfileScreen profileId={activeProfileId} user={userProfile} onBack={() => setScreen('map')} onOpenSettings={() => setScreen('settings')} />
+        </div>
+    );
+  }
+
+  // View: Settings
+  if (userProfile && screen === 'settings') {
+    return (
+        <div className="h-full w-full">
+            <SettingsScreen
+                user={userProfile}
+                onChange={setUserProfile}
+                onResetProgress={handleResetProgress}
+                onSwitchProfile={handleSwitchProfile}
+                onBack={() => setScreen('map')}
+                voicePreviewer={voicePreviewer}
+            />
+        </div>
+    );
+  }
+
   // View: Lesson Map
   if (userProfile) {
     return (
@@ -127,6 +462,13 @@ const App: React.FC = () => {
             <LessonMap 
                 user={userProfile} 
                 onStepSelect={handleStepSelect} 
+                onOpenHistory={() => setScreen('history')}
+                onOpenProfile={() => setScreen('profile')}
+                onOpenSettings={() => setScreen('settings')}
+                dueCardCount={dueCards.length}
+                onStartReview={handleStartReview}
+                onTestOut={handleTestOut}
+                onGamificationChange={gamification => setUserProfile({ ...userProfile, gamification })}
             />
         </div>
     );
@@ -135,7 +477,11 @@ const App: React.FC = () => {
   // View: Onboarding (Default start if no profile)
   return (
     <div className="h-full w-full">
-      <Onboarding onComplete={handleProfileComplete} />
+      <Onboarding
+        onComplete={handleProfileComplete}
+        createTransport={createTransport}
+        onCancel={profileIds.length > 0 ? () => setIsAddingProfile(false) : undefined}
+      />
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { getCharacterForStep, getCharactersForLanguage } from '../constants';
+import { Character, CoachOverrides, StepType, STEP_TYPES, TargetLanguageCode } from '../types';
+import { VoicePreviewer } from '../utils/voicePreview';
+import { Translate } from '../utils/i18n';
+
+interface CharacterSelectorProps {
+  language: TargetLanguageCode;
+  overrides: CoachOverrides;
+  onChange: (overrides: CoachOverrides) => void;
+  previewer: VoicePreviewer;
+  t: Translate;
+}
+
+// Coach picker: hear each coach's voice, then choose who teaches each step type
+const CharacterSelector: React.FC<CharacterSelectorProps> = ({ language, overrides, onChange, previewer, t }) => {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => () => previewer.stop(), [previewer]);
+
+  const handlePreview = async (character: Character) => {
+    setPreviewError(null);
+    setPlayingId(character.id);
+    try {
+      await previewer.play(character);
+    } catch (e) {
+      console.error("Voice preview failed", e);
+      setPreviewError(t('coaches.previewFailed', { name: character.name }));
+    } finally {
+      setPlayingId(null);
+    }
+  };
+
+  // Picking the default coach clears the override rather than storing it
+  const handleSelect = (type: StepType, characterId: string) => {
+    const { [type]: _, ...rest } = overrides;
+    onChange(getCharacterForStep(type, language).id === characterId ? rest : { ...rest, [type]: characterId });
+  };
+
+  const characters = getCharactersForLanguage(language);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {characters.map(character => (
+          <div key={character.id} className="bg-[#1b1b1b] border border-[#2b2b2b] rounded-2xl p-3 flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <div className={`w-9 h-9 shrink-0 rounded-full bg-gradient-to-br ${character.avatarColor} flex items-center justify-center font-bold`}>
+                {character.name[0]}
+              </div>
+              <div className="min-w-0">
+                <div className="font-bold">{character.name}</div>
+                <div className="text-[11px] text-gray-400 leading-tight">{character.description}</div>
+              </div>
+            </div>
+            <button
+              onClick={() => handlePreview(character)}
+              disabled={playingId !== null}
+              className="text-xs font-bold rounded-lg border border-[#333] py-1.5 hover:border-[#555] disabled:opacity-50"
+            >
+              {playingId === character.id ? t('common.loading') : `▶ ${t('coaches.hearVoice')}`}
+            </button>
+          </div>
+        ))}
+      </div>
+      {previewError && <div className="text-xs text-red-400">{previewError}</div>}
+
+      <div className="space-y-2">
+        {STEP_TYPES.map(type => {
+          const selected = getCharacterForStep(type, language, overrides);
+          return (
+            <div key={type} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{t(`stepType.${type}`)}</span>
+              <div className="flex gap-1.5">
+                {characters.map(character => (
+                  <button
+                    key={character.id}
+                    onClick={() => handleSelect(type, character.id)}
+                    title={t(getCharacterForStep(type, language).id === character.id ? 'coaches.teachesByDefault' : 'coaches.teaches', { name: character.name, stepType: t(`stepType.${type}`) })}
+                    className={`w-8 h-8 rounded-full bg-gradient-to-br ${character.avatarColor} text-xs font-bold transition ${
+                      selected.id === character.id ? 'ring-2 ring-white' : 'opacity-40 hover:opacity-80'
+                    }`}
+                  >
+                    {character.name[0]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CharacterSelector;
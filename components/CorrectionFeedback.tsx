@@ -0,0 +1,52 @@
+import React from 'react';
+import { Correction } from '../types';
+import { splitByCorrections } from '../utils/corrections';
+import { Translate } from '../utils/i18n';
+
+interface CorrectionFeedbackProps {
+  corrections: Correction[];
+  text?: string; // The learner's message; when given, corrected parts are struck through in place
+  t: Translate;
+}
+
+const Fix: React.FC<{ correction: Correction; original: string }> = ({ correction, original }) => (
+  <>
+    {original && <del className="line-through decoration-red-300 decoration-2 opacity-75">{original}</del>}
+    {correction.corrected && <ins className="no-underline font-bold bg-white/20 rounded px-1 ms-1">{correction.corrected}</ins>}
+  </>
+);
+
+// Body of a learner bubble the coach corrected: the mistake struck through, the fix, and the
+// coach's explanation behind a "Why?" toggle
+const CorrectionFeedback: React.FC<CorrectionFeedbackProps> = ({ corrections, text, t }) => {
+  const { segments, unplaced } = text !== undefined
+    ? splitByCorrections(text, corrections)
+    : { segments: [], unplaced: corrections };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      {segments.length > 0 && (
+        <div>
+          {segments.map((segment, i) => segment.correction
+            ? <Fix key={i} correction={segment.correction} original={segment.text} />
+            : <span key={i}>{segment.text}</span>
+          )}
+        </div>
+      )}
+      {unplaced.map((correction, i) => (
+        <div key={i}><Fix correction={correction} original={correction.original} /></div>
+      ))}
+      {corrections.filter(c => c.explanation).map((correction, i) => (
+        <details key={i} className="text-[11px] opacity-90">
+          <summary className="cursor-pointer select-none">
+            <span className="px-1.5 rounded bg-white/20 font-bold">{t(`correction.category.${correction.category}`)}</span>
+            <span className="ms-1.5 underline underline-offset-2">{t('correction.why')}</span>
+          </summary>
+          <div dir="auto" className="mt-1">{correction.explanation}</div>
+        </details>
+      ))}
+    </div>
+  );
+};
+
+export default CorrectionFeedback;
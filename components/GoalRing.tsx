@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface GoalRingProps {
+  progress: number; // 0..1, clamped
+  size?: number;
+  strokeWidth?: number;
+  color?: string;
+  children?: React.ReactNode;
+}
+
+// Circular daily-goal progress, drawn as an SVG arc starting at 12 o'clock
+const GoalRing: React.FC<GoalRingProps> = ({ progress, size = 32, strokeWidth = 4, color = '#FFC800', children }) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.max(0, Math.min(1, progress));
+  return (
+    <div className="relative flex items-center justify-center" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90 absolute inset-0">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="#333" strokeWidth={strokeWidth} />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped)}
+          className="transition-all duration-500"
+        />
+      </svg>
+      <div className="relative text-[10px] font-bold">{children}</div>
+    </div>
+  );
+};
+
+export default GoalRing;
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CHARACTERS, getCurriculum } from '../constants';
+import { SessionRecord, StepType, STEP_TYPES, UserProfile } from '../types';
+import { loadHistory } from '../utils/historyStorage';
+import { getTextDirection, getTranslator } from '../utils/i18n';
+import { formatCorrection, formatSpeakingTime, formatStars } from '../utils/reportCard';
+import PronunciationFeedback from './PronunciationFeedback';
+import CorrectionFeedback from './CorrectionFeedback';
+
+interface HistoryScreenProps {
+  profileId: string;
+  user: UserProfile;
+  onBack: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (epochMs: number, locale: string) =>
+  new Date(epochMs).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ profileId, user, onBack }) => {
+  const language = user.targetLanguage;
+  const t = getTranslator(user.nativeLanguage.code);
+  const dir = getTextDirection(user.nativeLanguage.code);
+  const locale = user.nativeLanguage.code;
+  const [history, setHistory] = useState<SessionRecord[] | null>(null);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+
+  // Filters
+  const [query, setQuery] = useState('');
+  const [subjectId, setSubjectId] = useState('');
+  const [stepType, setStepType] = useState<StepType | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    loadHistory(profileId, language)
+      .then(setHistory)
+      .catch(e => {
+        console.error("Failed to load session history", e);
+        setHistory([]);
+      });
+  }, [profileId, language]);
+
+  const subjects = useMemo(() => getCurriculum(language).flatMap(level => level.subjects), [language]);
+
+  const filtered = useMemo(() => {
+    if (!history) return [];
+    const needle = query.trim().toLowerCase();
+    // Date inputs are local calendar days
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+
+    return history.filter(record => {
+      if (subjectId && record.subjectId !== subjectId) return false;
+      if (stepType && record.stepType !== stepType) return false;
+      if (record.startedAt < from || record.startedAt > to) return false;
+      if (!needle) return true;
+      return (
+        record.subjectTitle.toLowerCase().includes(needle) ||
+        record.stepTitle.toLowerCase().includes(needle) ||
+        record.messages.some(m => m.text.toLowerCase().includes(needle))
+      );
+    });
+  }, [history, query, subjectId, stepType, fromDate, toDate]);
+
+  const highlight = (text: string) => {
+    const needle = query.trim();
+    if (!needle) return text;
+    const index = text.toLowerCase().indexOf(needle.toLowerCase());
+    if (index === -1) return text;
+    return (
+      <>
+        {text.slice(0, index)}
+        <mark className="bg-yellow-300 text-black rounded px-0.5">{text.slice(index, index + needle.length)}</mark>
+        {text.slice(index + needle.length)}
+      </>
+    );
+  };
+
+  // Transcript view
+  if (selected) {
+    const character = CHARACTERS[selected.characterId];
+    return (
+      <div dir={dir} className="h-full bg-[#111111] text-white flex flex-col font-sans">
+        <div className="bg-[#111111] border-b border-[#222] px-4 py-3 flex items-center gap-3">
+          <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white text-2xl px-2 rtl:-scale-x-100">←</button>
+          <div className="flex flex-col">
+            <span className="font-bold">{selected.subjectTitle} · {selected.stepTitle}</span>
+            <span className="text-xs text-gray-400">
+              {formatDate(selected.startedAt, locale)} · {formatDuration(selected.durationMs)} · {t('session.coach', { coach: character?.name ?? selected.characterId })}
+            </span>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3 scrollbar-hide">
+          {selected.report && (
+            <div className="bg-[#1b1b1b] border border-[#2b2b2b] rounded-2xl p-4 text-sm space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-[#FFC800] text-lg">{formatStars(selected.report.rating)}</span>
+                <span className="text-gray-400">
+                  {selected.report.score}/100 · 🎙️ {formatSpeakingTime(selected.report.speakingMs)}
+                  {selected.report.xp !== undefined && ` · +${selected.report.xp} XP`}
+                </span>
+              </div>
+              {selected.report.newWords.length > 0 && (
+                <div><span className="text-gray-400">{t('report.newWords')}:</span> {selected.report.newWords.map(w => w.term).join(', ')}</div>
+              )}
+              {selected.report.corrections.length > 0 && (
+                <div><span className="text-gray-400">{t('report.corrections')}:</span> {selected.report.corrections.map(formatCorrection).join('; ')}</div>
+              )}
+            </div>
+          )}
+          {/* Indexed keys: sessions saved before message IDs were unique can repeat them */}
+          {selected.messages.map((msg, i) => (
+            <div key={i} className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm ${
+                msg.role === 'user'
+                ? 'bg-indigo-500 text-white rounded-se-none'
+                : 'bg-[#222] text-gray-100 border border-[#333] rounded-ss-none'
+              }`}>
+                {msg.pronunciation ? <PronunciationFeedback result={msg.pronunciation} t={t} /> : !msg.corrections && highlight(msg.text)}
+                {msg.corrections && <CorrectionFeedback corrections={msg.corrections} text={msg.pronunciation ? undefined : msg.text} t={t} />}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div dir={dir} className="h-full bg-[#111111] text-white flex flex-col font-sans">
+      <div className="bg-[#111111] border-b border-[#222] px-4 py-3 flex items-center gap-3">
+        <button onClick={onBack} className="text-gray-400 hover:text-white text-2xl px-2 rtl:-scale-x-100">←</button>
+        <h1 className="font-bold text-lg">{t('nav.history')}</h1>
+      </div>
+
+      {/* Filters */}
+      <div className="px-4 py-3 space-y-2 border-b border-[#222]">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('history.search')}
+          className="w-full bg-[#222] border border-[#333] rounded-xl px-4 py-2 text-sm outline-none focus:border-blue-500"
+        />
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <select
+            value={subjectId}
+            onChange={(e) => setSubjectId(e.target.value)}
+            className="bg-[#222] border border-[#333] rounded-xl px-3 py-2"
+          >
+            <option value="">{t('history.allSubjects')}</option>
+            {subjects.map(s => <option key={s.id} value={s.id}>{s.icon} {s.title}</option>)}
+          </select>
+          <select
+            value={stepType}
+            onChange={(e) => setStepType(e.target.value as StepType | '')}
+            className="bg-[#222] border border-[#333] rounded-xl px-3 py-2"
+          >
+            <option value="">{t('history.allStepTypes')}</option>
+            {STEP_TYPES.map(type => <option key={type} value={type}>{t(`stepType.${type}`)}</option>)}
+          </select>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="bg-[#222] border border-[#333] rounded-xl px-3 py-2"
+            aria-label={t('history.fromDate')}
+          />
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="bg-[#222] border border-[#333] rounded-xl px-3 py-2"
+            aria-label={t('history.toDate')}
+          />
+        </div>
+      </div>
+
+      {/* Session List */}
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3 scrollbar-hide">
+        {history === null && (
+          <div className="text-center text-gray-500 text-sm mt-10">{t('common.loading')}</div>
+        )}
+        {history !== null && filtered.length === 0 && (
+          <div className="text-center text-gray-500 text-sm mt-10">
+            {history.length === 0 ? t('history.empty') : t('history.noMatches')}
+          </div>
+        )}
+        {filtered.map((record: SessionRecord) => {
+          const character = CHARACTERS[record.characterId];
+          const preview = record.messages.find(m => m.role === 'model')?.text ?? '';
+          return (
+            <button
+              key={record.id}
+              onClick={() => setSelected(record)}
+              className="w-full text-start bg-[#1b1b1b] border border-[#2b2b2b] hover:border-[#444] rounded-2xl p-4 flex gap-3 transition"
+            >
+              <div className={`w-10 h-10 shrink-0 rounded-full bg-gradient-to-br ${character?.avatarColor ?? 'from-gray-500 to-gray-600'} flex items-center justify-center font-bold`}>
+                {character?.name[0] ?? '?'}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold truncate">{record.subjectTitle} · {record.stepTitle}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {record.assessment?.score !== undefined && (
+                      <span className="text-[10px] font-bold text-green-400">{record.assessment.score}/100</span>
+                    )}
+                    {record.completed && <span className="text-[10px] font-bold uppercase text-[#FFC800]">{t('history.completed')}</span>}
+                  </div>
+                </div>
+                <div className="text-xs text-gray-400">
+                  {record.levelId} · {t(`stepType.${record.stepType}`)} · {formatDate(record.startedAt, locale)} · {formatDuration(record.durationMs)}
+                </div>
+                <div className="text-sm text-gray-300 truncate mt-1">{preview}</div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryScreen;
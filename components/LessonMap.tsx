@@ -1,15 +1,30 @@
 import React, { useRef, useLayoutEffect, useState } from 'react';
-import { CURRICULUM, getCharacterForStep } from '../constants';
-import { UserProfile, Subject, Step, Level } from '../types';
+import { getCurriculum, getTargetLanguage } from '../constants';
+import { UserProfile, Subject, Step, StepType, Level, GamificationState, PROFICIENCY_LEVELS } from '../types';
+import { dayKey, getStreak } from '../utils/gamification';
+import { formatLanguageName, getTextDirection, getTranslator } from '../utils/i18n';
+import GoalRing from './GoalRing';
+import StreakPanel from './StreakPanel';
 
 interface LessonMapProps {
   user: UserProfile;
   onStepSelect: (level: Level, subject: Subject, step: Step) => void;
+  onOpenHistory: () => void;
+  onOpenProfile: () => void;
+  onOpenSettings: () => void;
+  dueCardCount: number;
+  onStartReview: () => void;
+  onTestOut: (level: Level, subject?: Subject) => void;
+  onGamificationChange: (state: GamificationState) => void;
 }
 
 const STEP_HEIGHT = 120; // Height of each step row in pixels for SVG calculation
 
-const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
+const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect, onOpenHistory, onOpenProfile, onOpenSettings, dueCardCount, onStartReview, onTestOut, onGamificationChange }) => {
+  const [isStreakPanelOpen, setIsStreakPanelOpen] = useState(false);
+  const t = getTranslator(user.nativeLanguage.code);
+  const dir = getTextDirection(user.nativeLanguage.code);
+
   // Flatten the curriculum into a linear list of steps for rendering the continuous path
   const allSteps = React.useMemo(() => {
     const stepsList: { 
@@ -22,7 +37,7 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
     }[] = [];
 
     let gIndex = 0;
-    CURRICULUM.forEach((level) => {
+    getCurriculum(user.targetLanguage).forEach((level) => {
         level.subjects.forEach((subject, sIdx) => {
             subject.steps.forEach((step, stepIdx) => {
                 stepsList.push({
@@ -38,15 +53,21 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
         });
     });
     return stepsList;
-  }, []);
+  }, [user.targetLanguage]);
 
   // Helper to check completion
   const isCompleted = (subjectId: string, stepId: string) => 
      user.completedSteps.includes(`${subjectId}-${stepId}`);
 
-  // Helper to check unlock status (Strict locking)
+  // Levels below the learner's starting level stay open for revision
+  const startLevelIndex = PROFICIENCY_LEVELS.indexOf(user.currentLevel);
+  const isBelowStartLevel = (level: Level) => PROFICIENCY_LEVELS.indexOf(level.id) < startLevelIndex;
+
+  // Helper to check unlock status: strict locking from the first step of the starting level
   const isUnlocked = (index: number) => {
-      if (index === 0) return true;
+      const item = allSteps[index];
+      if (index === 0 || isBelowStartLevel(item.level)) return true;
+      if (item.isLevelStart && item.level.id === user.currentLevel) return true;
       const prevStepObj = allSteps[index - 1];
       return isCompleted(prevStepObj.subject.id, prevStepObj.step.id);
   };
@@ -55,7 +76,9 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   useLayoutEffect(() => {
       // Find first unlocked but not completed step
-      const activeIndex = allSteps.findIndex((item, idx) => isUnlocked(idx) && !isCompleted(item.subject.id, item.step.id));
+      // (skipping the open revision levels below the starting level)
+      const activeIndex = allSteps.findIndex((item, idx) =>
+          !isBelowStartLevel(item.level) && isUnlocked(idx) && !isCompleted(item.subject.id, item.step.id));
       if (activeIndex !== -1 && scrollRef.current) {
           const yPos = activeIndex * STEP_HEIGHT;
           // Scroll with some padding from top
@@ -63,26 +86,53 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
       }
   }, [allSteps, user.completedSteps]);
 
-  const getXOffset = (index: number) => Math.sin(index * 0.7) * 75; // Snake curve
+  // Header: streak (dimmed until today's first XP), gems and today's progress towards the daily goal
+  const gamification = user.gamification;
+  const now = Date.now();
+  const streak = getStreak(gamification, now, user.timeZone);
+  const todayXp = gamification.xpByDay[dayKey(now, user.timeZone)] ?? 0;
+  const isActiveToday = todayXp > 0;
+
+  // Snake curve, mirrored for right-to-left languages so the path starts on the reading side
+  const getXOffset = (index: number) => Math.sin(index * 0.7) * 75 * (dir === 'rtl' ? -1 : 1);
 
   return (
-    <div className="h-full bg-[#111111] text-white flex flex-col font-sans relative overflow-hidden">
+    <div dir={dir} className="h-full bg-[#111111] text-white flex flex-col font-sans relative overflow-hidden">
       
       {/* Top Header */}
       <div className="absolute top-0 left-0 right-0 z-50 bg-[#111111]/90 backdrop-blur-sm border-b border-[#222] px-4 py-3 flex justify-between items-center">
          <div className="flex items-center gap-3">
-            <span className="text-2xl border border-[#333] rounded-md px-1 bg-[#222]">{user.nativeLanguage.flag}</span>
+            <span className="text-2xl border border-[#333] rounded-md px-1 bg-[#222]" title={t('map.learning', { language: formatLanguageName(user.targetLanguage, user.nativeLanguage.code) })}>{getTargetLanguage(user.targetLanguage).flag}</span>
+            <button
+                onClick={onStartReview}
+                disabled={dueCardCount === 0}
+                title={dueCardCount === 0 ? t('map.noDueCards') : t('map.reviewDeck')}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-sm font-bold transition ${
+                    dueCardCount > 0
+                    ? 'border-[#a855f7] bg-[#a855f7]/20 text-[#d8b4fe] hover:bg-[#a855f7]/30'
+                    : 'border-[#333] text-gray-500 cursor-default'
+                }`}
+            >
+                <span>🃏</span>
+                {dueCardCount > 0 ? t('map.review', { count: dueCardCount }) : t('map.allReviewed')}
+            </button>
          </div>
-         <div className="flex items-center gap-4">
-             <div className="flex items-center gap-1.5">
+         <button onClick={() => setIsStreakPanelOpen(open => !open)} className="flex items-center gap-4" title={t('map.streakAndGoal')}>
+             <div className={`flex items-center gap-1.5 ${isActiveToday ? '' : 'grayscale opacity-60'}`}>
                 <span className="text-orange-500 text-xl">🔥</span>
-                <span className="font-bold text-orange-500">1</span>
+                <span className="font-bold text-orange-500">{streak}</span>
              </div>
              <div className="flex items-center gap-1.5">
                 <span className="text-blue-400 text-xl">💎</span>
-                <span className="font-bold text-blue-400">450</span>
+                <span className="font-bold text-blue-400">{gamification.gems}</span>
              </div>
-         </div>
+             <GoalRing progress={todayXp / gamification.dailyGoalXp}>
+                {todayXp >= gamification.dailyGoalXp ? '✓' : todayXp}
+             </GoalRing>
+         </button>
+         {isStreakPanelOpen && (
+             <StreakPanel user={user} onChange={onGamificationChange} onClose={() => setIsStreakPanelOpen(false)} />
+         )}
       </div>
 
       {/* Scrollable Path */}
@@ -145,18 +195,40 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
                  <React.Fragment key={`${item.subject.id}-${item.step.id}`}>
                      {/* Level/Subject Headers */}
                      {item.isLevelStart && (
-                         <div className="w-full flex justify-center mb-8 mt-4 z-10 relative">
+                         <div className="w-full flex flex-col items-center gap-2 mb-8 mt-4 z-10 relative">
                              <div className="bg-[#111] border border-[#333] px-6 py-2 rounded-xl text-lg font-bold text-white shadow-lg">
                                  {item.level.title}
                              </div>
+                             {!unlocked && (
+                                 <button
+                                     onClick={() => onTestOut(item.level)}
+                                     className="text-xs font-bold uppercase tracking-wide text-[#FFC800] border border-[#FFC800]/50 rounded-full px-3 py-1 hover:bg-[#FFC800]/10 transition"
+                                 >
+                                     {t('map.testOutLevel', { level: item.level.id })}
+                                 </button>
+                             )}
                          </div>
                      )}
                      
-                     {item.isSubjectStart && !item.isLevelStart && (
-                         <div className="w-full flex justify-center mb-4 mt-2 z-10 relative">
-                             <div className="bg-[#111] border border-[#333] px-4 py-1 rounded-lg text-sm font-bold text-gray-400 shadow">
-                                 {item.subject.title}
-                             </div>
+                     {item.isSubjectStart && (
+                         <div className="w-full flex justify-center items-center gap-2 mb-4 mt-2 z-10 relative">
+                             {!item.isLevelStart && (
+                                 <div className="bg-[#111] border border-[#333] px-4 py-1 rounded-lg text-sm font-bold text-gray-400 shadow">
+                                     {item.subject.title}
+                                 </div>
+                             )}
+                             {user.testedOutSubjects.includes(item.subject.id) && (
+                                 <span className="text-[10px] font-bold uppercase text-gray-500">{t('map.testedOut')}</span>
+                             )}
+                             {!unlocked && (
+                                 <button
+                                     onClick={() => onTestOut(item.level, item.subject)}
+                                     title={t('map.testOutHint', { subject: item.subject.title })}
+                                     className="text-[10px] font-bold uppercase tracking-wide text-[#FFC800] border border-[#FFC800]/50 rounded-full px-2 py-0.5 hover:bg-[#FFC800]/10 transition"
+                                 >
+                                     {t('map.testOut')}
+                                 </button>
+                             )}
                          </div>
                      )}
 
@@ -165,11 +237,25 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
                         className="relative z-10 flex justify-center items-center"
                         style={{ height: STEP_HEIGHT, transform: `translateX(${xOffset}px)` }}
                      >
+                        {/* Latest pronunciation score, with the change since the session before */}
+                        {(() => {
+                            const scores = user.pronunciationScores[`${item.subject.id}-${item.step.id}`];
+                            if (!scores?.length) return null;
+                            const latest = scores[scores.length - 1].score;
+                            const delta = scores.length > 1 ? latest - scores[scores.length - 2].score : 0;
+                            return (
+                                <div className="absolute -bottom-1 z-20 bg-[#222] border border-[#333] rounded-full px-2 py-0.5 text-[11px] font-bold text-gray-200" title={t('map.pronunciationScore')}>
+                                    🎯 {latest}
+                                    {delta !== 0 && <span className={delta > 0 ? 'text-green-400 ms-1' : 'text-red-400 ms-1'}>{delta > 0 ? '↑' : '↓'}</span>}
+                                </div>
+                            );
+                        })()}
+
                         {/* Floating Label for Active Lesson */}
-                        {unlocked && !completed && (
+                        {unlocked && !completed && !isBelowStartLevel(item.level) && (
                             <div className="absolute -top-12 animate-bounce z-20">
-                                <div className="bg-white text-black font-bold text-sm px-3 py-2 rounded-xl shadow-lg relative border-2 border-gray-200">
-                                    {item.step.type.toUpperCase()}
+                                <div className="bg-white text-black font-bold text-sm uppercase px-3 py-2 rounded-xl shadow-lg relative border-2 border-gray-200">
+                                    {t(`stepType.${item.step.type as StepType}`)}
                                     <div className="absolute top-full left-1/2 -translate-x-1/2 -translate-y-1 w-3 h-3 bg-white border-b-2 border-r-2 border-gray-200 rotate-45"></div>
                                 </div>
                             </div>
@@ -205,7 +291,7 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
          })}
 
          <div className="text-center text-gray-600 mt-8 mb-20 font-bold tracking-widest uppercase text-xs">
-             More coming soon
+             {t('map.moreSoon')}
          </div>
       </div>
 
@@ -217,25 +303,34 @@ const LessonMap: React.FC<LessonMapProps> = ({ user, onStepSelect }) => {
                     <path d="M11.25 4.533A9.707 9.707 0 006 3.066a9.75 9.75 0 000 13.392.75.75 0 00.53.914 9.716 9.716 0 004.72 1.378v-8.217zM12.75 18.75v-8.217a9.716 9.716 0 004.72-1.378.75.75 0 00.53-.914 9.75 9.75 0 000-13.392 9.707 9.707 0 00-5.25 1.467z" />
                 </svg>
              </div>
-             <span className="text-[10px] font-bold text-blue-500 uppercase tracking-wide">Lessons</span>
+             <span className="text-[10px] font-bold text-blue-500 uppercase tracking-wide">{t('nav.lessons')}</span>
+         </button>
+
+         <button onClick={onOpenHistory} className="flex flex-col items-center gap-1 p-2 w-20 opacity-50 hover:opacity-100 transition-opacity">
+             <div className="w-10 h-8 flex items-center justify-center">
+                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-7 h-7 text-gray-400">
+                    <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25zM12.75 6a.75.75 0 00-1.5 0v6c0 .414.336.75.75.75h4.5a.75.75 0 000-1.5h-3.75V6z" clipRule="evenodd" />
+                 </svg>
+             </div>
+             <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wide">{t('nav.history')}</span>
          </button>
          
-         <button className="flex flex-col items-center gap-1 p-2 w-20 opacity-50 hover:opacity-100 transition-opacity">
+         <button onClick={onOpenProfile} className="flex flex-col items-center gap-1 p-2 w-20 opacity-50 hover:opacity-100 transition-opacity">
              <div className="w-10 h-8 flex items-center justify-center">
                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-7 h-7 text-gray-400">
                     <path fillRule="evenodd" d="M15.5 5.5a2.5 2.5 0 10-5 0V8.2a2.5 2.5 0 105 0V5.5zM7.5 6a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM3.751 20.105a8.25 8.25 0 0116.498 0 .75.75 0 01-.437.695A18.683 18.683 0 0112 22.5c-2.786 0-5.433-.608-7.812-1.7a.75.75 0 01-.437-.695z" clipRule="evenodd" />
                  </svg>
              </div>
-             <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wide">Profile</span>
+             <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wide">{t('nav.profile')}</span>
          </button>
 
-         <button className="flex flex-col items-center gap-1 p-2 w-20 opacity-50 hover:opacity-100 transition-opacity">
+         <button onClick={onOpenSettings} className="flex flex-col items-center gap-1 p-2 w-20 opacity-50 hover:opacity-100 transition-opacity">
             <div className="w-10 h-8 flex items-center justify-center">
                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-7 h-7 text-gray-400">
                     <path fillRule="evenodd" d="M1.5 6a2.25 2.25 0 012.25-2.25h16.5A2.25 2.25 0 0122.5 6v12a2.25 2.25 0 01-2.25 2.25H3.75A2.25 2.25 0 011.5 18V6zM3 16.06V18c0 .414.336.75.75.75h16.5A.75.75 0 0021 18v-1.94l-2.69-2.689a1.5 1.5 0 00-2.12 0l-.88.879.97.97a.75.75 0 11-1.06 1.06l-5.16-5.159a1.5 1.5 0 00-2.12 0L3 16.061zm10.125-7.81a1.125 1.125 0 112.25 0 1.125 1.125 0 01-2.25 0z" clipRule="evenodd" />
                 </svg>
             </div>
-            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wide">More</span>
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wide">{t('nav.more')}</span>
          </button>
       </div>
     </div>
@@ -1,35 +1,89 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { UserProfile, LiveConfig, ConnectionState, ChatMessage, Level, Subject, Step } from '../types';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { generateSystemInstruction, MODEL_NAME, AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT, getCharacterForStep } from '../constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { UserProfile, LiveConfig, ConnectionState, ChatMessage, SessionPlan, SessionTranscript, StepAssessment, CapturedWord, WordLookupResult } from '../types';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { generateSessionInstruction, buildSessionKickoffMessage, MODEL_NAME, AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT, AUDIO_INPUT_FRAME_SIZE, getCharacterForPlan, getPlanObjectives, getSessionPromptVersion, describePlan, getCurriculum, getTargetLanguage } from '../constants';
 import { createAudioBlob, decodeAudioData, base64ToUint8Array } from '../utils/audioUtils';
+import { LiveTransport, LiveTransportSession } from '../utils/liveTransport';
+import { getBackoffDelay, MAX_RECONNECT_ATTEMPTS } from '../utils/backoff';
+import { MicCapture, startMicCapture } from '../utils/audioCapture';
+import { createSessionRecorder, formatTranscriptSidecar, SessionRecorder, WavLayout } from '../utils/sessionRecorder';
+import { downloadBlob } from '../utils/download';
+import { scorePronunciation } from '../utils/pronunciation';
+import { applySessionToolCall, createSessionToolState, getSessionTools, SessionToolState } from '../utils/lessonTools';
+import { attachCorrections } from '../utils/corrections';
+import { getTextDirection, getTranslator } from '../utils/i18n';
+import { WordLookup } from '../utils/wordLookup';
+import { buildLexicon, lookupGloss } from '../utils/targetSpans';
+import { normalizeTerm } from '../utils/srs';
 import AudioVisualizer from './AudioVisualizer';
+import PronunciationFeedback from './PronunciationFeedback';
+import CorrectionFeedback from './CorrectionFeedback';
+import TranslatableText from './TranslatableText';
+
+// If the coach hasn't spoken this long after a kickoff, send it again (up to the attempt limit)
+const KICKOFF_TIMEOUT_MS = 8000;
+const MAX_KICKOFF_ATTEMPTS = 3;
 
 interface LiveSessionProps {
   user: UserProfile;
-  level: Level;
-  subject: Subject;
-  step: Step;
-  apiKey: string;
-  onDisconnect: () => void;
-  onComplete: () => void;
+  plan: SessionPlan;
+  transport: LiveTransport;
+  learnerMemory?: string; // summarizeLearnerMemory output for lesson steps
+  wordLookup?: WordLookup; // Tap-to-translate in coach messages
+  deckTerms?: Set<string>; // normalizeTerm of every card already in the vocabulary deck
+  onDisconnect: (transcript: SessionTranscript) => void;
+  onComplete: (transcript: SessionTranscript) => void;
 }
 
-const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, apiKey, onDisconnect, onComplete }) => {
+// Transcription chunks for both sides can arrive within the same millisecond, so IDs can't be timestamps
+const createMessageId = () => crypto.randomUUID();
+
+// Replayed into the system prompt when a dropped session can't be resumed server-side
+const RECAP_MAX_MESSAGES = 30;
+const buildTranscriptRecap = (messages: ChatMessage[], assessment: StepAssessment) => {
+  const lines = messages
+    .filter(m => m.text)
+    .slice(-RECAP_MAX_MESSAGES)
+    .map(m => `${m.role === 'user' ? 'Learner' : 'You'}: ${m.text}`);
+  if (lines.length === 0) return '';
+  const met = assessment.objectivesMet;
+  return `
+RESUMED SESSION:
+The connection dropped mid-lesson. This is the conversation so far. Do NOT greet the learner again or restart the lesson;
+briefly acknowledge the interruption and continue exactly where you left off.
+${lines.join('\n')}
+Objectives already marked as met: ${met.length ? met.join(', ') : 'none'}. Do not mark them again.
+`;
+};
+
+const LiveSession: React.FC<LiveSessionProps> = ({ user, plan, transport, learnerMemory, wordLookup, deckTerms, onDisconnect, onComplete }) => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.CONNECTING);
-  const [isMicOn, setIsMicOn] = useState(true);
+  // Text-only learners start with no microphone at all; they can still switch it on mid-lesson
+  const isTextMode = user.inputMode === 'text';
+  const [isMicOn, setIsMicOn] = useState(!isTextMode);
+  const [isMicReady, setIsMicReady] = useState(false);
+  const [draft, setDraft] = useState('');
   const [isThinking, setIsThinking] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [needsInteraction, setNeedsInteraction] = useState(false);
-  const [turnCount, setTurnCount] = useState(0); // Track turns to prevent skipping
+  // Filled in by the coach's tool calls; the lesson can only be completed once it reports a pass
+  const [toolState, setToolState] = useState<SessionToolState>(() => createSessionToolState(getPlanObjectives(plan)));
+  const assessment = toolState.assessment;
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [kickoffFailed, setKickoffFailed] = useState(false);
+  const [recordingState, setRecordingState] = useState<'off' | 'recording' | 'stopped'>('off');
+  const [recordingMs, setRecordingMs] = useState(0);
   
-  const character = getCharacterForStep(step.type);
+  const character = getCharacterForPlan(plan, user);
+  const t = getTranslator(user.nativeLanguage.code);
+  const dir = getTextDirection(user.nativeLanguage.code);
+  const labels = describePlan(plan, t);
 
   // Audio Refs
   const inputContextRef = useRef<AudioContext | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   
   // Playback Refs
@@ -38,7 +92,10 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
 
   // Connection Ref
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveTransportSession> | null>(null);
+  const retryConnectionRef = useRef<() => void>(() => {});
+  const startKickoffRef = useRef<() => void>(() => {});
+  const startMicrophoneRef = useRef<() => Promise<void>>(async () => {});
 
   // Helper to clean thought logs from text
   const cleanText = (text: string) => {
@@ -55,221 +112,404 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
       return text;
   };
 
-  const triggerModel = (session: any) => {
-      // Create a short burst of noise (200ms) to trigger VAD
-      // Using 0.02 amplitude is low enough to be quiet but high enough for VAD
-      const duration = AUDIO_SAMPLE_RATE_INPUT / 5; // 200ms
-      const noise = new Float32Array(duration);
-      for (let i = 0; i < noise.length; i++) {
-          noise[i] = (Math.random() * 2 - 1) * 0.02;
-      }
-      const blob = createAudioBlob(noise, AUDIO_SAMPLE_RATE_INPUT);
-      session.sendRealtimeInput({ media: blob });
-      setIsThinking(true);
+  const isMicOnRef = useRef(isMicOn);
+  useEffect(() => { isMicOnRef.current = isMicOn; }, [isMicOn]);
+
+  // Mirrors of state read from inside transport callbacks
+  const messagesRef = useRef<ChatMessage[]>([]);
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+  const startedAtRef = useRef(Date.now());
+  const toolStateRef = useRef(toolState);
+  useEffect(() => { toolStateRef.current = toolState; }, [toolState]);
+  const targetFromIndexRef = useRef(0); // Messages before this predate the current target phrase
+
+  // Tap-to-translate: target-language words the app knows, including those taught this session
+  const lexicon = useMemo(
+    () => buildLexicon(getTargetLanguage(user.targetLanguage), getCurriculum(user.targetLanguage), toolState.capturedWords, user.nativeLanguage.code.startsWith('en')),
+    [user.targetLanguage, user.nativeLanguage.code, toolState.capturedWords]
+  );
+  // Looked-up words are filed under the subject being studied, like the ones the coach saves
+  const deckSubject = plan.kind === 'lesson' || plan.kind === 'testOut' ? plan.subject : undefined;
+
+  const handleLookup = (term: string, context: string): Promise<WordLookupResult> => wordLookup!.lookup({
+    term,
+    language: user.targetLanguage,
+    nativeLanguage: user.nativeLanguage,
+    context,
+    fallbackGloss: lookupGloss(lexicon, term),
+  });
+
+  // Saved in an earlier session, or captured in this one
+  const isInDeck = (term: string) => {
+    const key = normalizeTerm(term);
+    return !!deckTerms?.has(key) || toolState.capturedWords.some(w => normalizeTerm(w.term) === key);
+  };
+
+  const handleAddToDeck = (result: WordLookupResult) => {
+    if (!deckSubject || isInDeck(result.term)) return;
+    const word: CapturedWord = { term: result.term, gloss: result.translation, subjectId: deckSubject.id, subjectTitle: deckSubject.title };
+    const next = { ...toolStateRef.current, capturedWords: [...toolStateRef.current.capturedWords, word] };
+    toolStateRef.current = next;
+    setToolState(next);
   };
 
-  // Safety: Retry trigger if thinking times out
+  // Score the learner's first spoken turn after the coach set a target phrase, once the
+  // coach has started replying (so the transcription is final)
   useEffect(() => {
-    if (!isThinking) return;
-    const timer = setTimeout(() => {
-        // If still thinking after 4s, the previous trigger might have been missed
-        // or the model is just slow. Retrying the trigger helps wake it up.
-        console.warn("Thinking state timed out (4s). Retrying trigger...");
-        sessionPromiseRef.current?.then(session => {
-            triggerModel(session);
-        });
-    }, 4000); 
-    return () => clearTimeout(timer);
-  }, [isThinking]);
+    const target = toolState.targetPhrase;
+    if (!target) return;
+    const index = messages.findIndex((m, i) => i >= targetFromIndexRef.current && m.role === 'user' && m.text);
+    if (index === -1 || index === messages.length - 1) return;
+
+    const attempt = messages[index];
+    if (!attempt.isTyped) {
+      const result = scorePronunciation(target, attempt.text, user.targetLanguage);
+      setMessages(prev => prev.map(m => m.id === attempt.id ? { ...m, pronunciation: result } : m));
+    }
+    const next = { ...toolStateRef.current, targetPhrase: undefined };
+    toolStateRef.current = next;
+    setToolState(next);
+  }, [messages, toolState.targetPhrase]);
+
+  // Snapshot of the conversation for the session history, with streaming flags settled
+  const finalizeTranscript = (): SessionTranscript => ({
+    messages: messagesRef.current.filter(m => m.text).map(m => ({ ...m, isPartial: false })),
+    startedAt: startedAtRef.current,
+    endedAt: Date.now(),
+    assessment: toolStateRef.current.assessment,
+    capturedWords: toolStateRef.current.capturedWords,
+    cardGrades: toolStateRef.current.cardGrades,
+    pronunciation: messagesRef.current.flatMap(m => m.pronunciation ? [m.pronunciation] : []),
+    placement: toolStateRef.current.placement,
+    learnerNotes: toolStateRef.current.learnerNotes,
+    corrections: toolStateRef.current.corrections,
+    promptVersion: getSessionPromptVersion(user, plan),
+  });
+  const isSessionOpenRef = useRef(false);
 
   useEffect(() => {
     let cleanup = false;
+    // Bumped on every (re)connect so callbacks from a superseded socket are ignored
+    let generation = 0;
+    let hasStarted = false; // Mic + kickoff only happen on the first successful open
+    let resumeHandle: string | null = null;
+    let reconnectAttempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // The lesson starts with an explicit client-content turn. It is only resent while the
+    // coach's first turn hasn't arrived, and gives up after MAX_KICKOFF_ATTEMPTS.
+    let kickoffAttempts = 0;
+    let kickoffTimer: ReturnType<typeof setTimeout> | null = null;
+    let firstModelTurnReceived = false;
+
+    const sendKickoff = () => {
+      if (cleanup || firstModelTurnReceived || !isSessionOpenRef.current) return;
+      if (kickoffTimer) clearTimeout(kickoffTimer);
+
+      if (kickoffAttempts >= MAX_KICKOFF_ATTEMPTS) {
+        console.error(`Coach did not start after ${kickoffAttempts} kickoff attempts`);
+        setIsThinking(false);
+        setKickoffFailed(true);
+        return;
+      }
 
-    const startSession = async () => {
-      try {
-        setConnectionState(ConnectionState.CONNECTING);
-        
-        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        inputContextRef.current = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_INPUT });
-        outputContextRef.current = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_OUTPUT });
+      kickoffAttempts++;
+      setKickoffFailed(false);
+      setIsThinking(true);
+      if (kickoffAttempts > 1) console.warn(`No coach response yet. Resending kickoff (attempt ${kickoffAttempts})`);
 
-        if (outputContextRef.current.state === 'suspended') {
-            setNeedsInteraction(true);
-        }
+      sessionPromiseRef.current?.then(session => {
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: buildSessionKickoffMessage(plan) }] }],
+          turnComplete: true,
+        });
+      });
+      kickoffTimer = setTimeout(sendKickoff, KICKOFF_TIMEOUT_MS);
+    };
 
-        const analyser = outputContextRef.current.createAnalyser();
-        analyser.fftSize = 256;
-        outputAnalyserRef.current = analyser;
+    const markFirstModelTurn = () => {
+      if (firstModelTurnReceived) return;
+      firstModelTurnReceived = true;
+      if (kickoffTimer) clearTimeout(kickoffTimer);
+      setKickoffFailed(false);
+    };
 
-        const ai = new GoogleGenAI({ apiKey });
-        
-        const config: LiveConfig = {
-          model: MODEL_NAME,
-          systemInstruction: generateSystemInstruction(user, level, subject, step),
-          voiceName: character.voiceName,
-        };
-
-        const sessionPromise = ai.live.connect({
-          model: config.model,
-          config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-              voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } },
-            },
-            systemInstruction: config.systemInstruction,
-            inputAudioTranscription: {}, 
-            outputAudioTranscription: {},
+    const startMicrophone = async () => {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      
+      if (!inputContextRef.current) return;
+
+      // Frames arrive already resampled to 16 kHz, so the rate label is always truthful
+      micCaptureRef.current = await startMicCapture(inputContextRef.current, stream, {
+        targetSampleRate: AUDIO_SAMPLE_RATE_INPUT,
+        frameSize: AUDIO_INPUT_FRAME_SIZE,
+        onFrame: (frame) => {
+          if (!isMicOnRef.current) return;
+          recorderRef.current?.addLearnerFrame(frame);
+          if (!isSessionOpenRef.current) return; 
+          const blob = createAudioBlob(frame, AUDIO_SAMPLE_RATE_INPUT);
+          
+          sessionPromiseRef.current?.then(session => {
+            session.sendRealtimeInput({ media: blob });
+          });
+        },
+      });
+      setIsMicReady(true);
+    };
+    startMicrophoneRef.current = startMicrophone;
+
+    const scheduleReconnect = () => {
+      if (cleanup) return;
+      isSessionOpenRef.current = false;
+      setIsThinking(false);
+
+      if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+        console.error(`Giving up after ${reconnectAttempt} reconnect attempts`);
+        setConnectionState(ConnectionState.ERROR);
+        return;
+      }
+
+      const delay = getBackoffDelay(reconnectAttempt);
+      reconnectAttempt++;
+      setReconnectAttempt(reconnectAttempt);
+      setConnectionState(ConnectionState.RECONNECTING);
+      console.warn(`Live session dropped. Reconnecting in ${Math.round(delay)}ms (attempt ${reconnectAttempt})`);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    const connect = () => {
+      if (cleanup) return;
+      const myGeneration = ++generation;
+      const isStale = () => cleanup || myGeneration !== generation;
+
+      // With a resumption handle the server restores the coach's context itself.
+      // Without one (dropped before the first handle arrived) the transcript is replayed in the prompt.
+      const baseInstruction = generateSessionInstruction(user, plan, learnerMemory);
+      const config: LiveConfig = {
+        model: MODEL_NAME,
+        systemInstruction: hasStarted && !resumeHandle
+          ? baseInstruction + buildTranscriptRecap(messagesRef.current, toolStateRef.current.assessment)
+          : baseInstruction,
+        voiceName: character.voiceName,
+      };
+
+      const sessionPromise = transport.connect({
+        model: config.model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } },
           },
-          callbacks: {
-            onopen: async () => {
-              if (cleanup) return;
-              
-              if (outputContextRef.current?.state === 'suspended') {
-                  try { await outputContextRef.current.resume(); } catch (e) { setNeedsInteraction(true); }
-              }
-              if (inputContextRef.current?.state === 'suspended') {
-                  try { await inputContextRef.current.resume(); } catch (e) { setNeedsInteraction(true); }
-              }
+          systemInstruction: config.systemInstruction,
+          inputAudioTranscription: {}, 
+          outputAudioTranscription: {},
+          // Lets the server hand out resumption handles and keeps long lessons under the context limit
+          sessionResumption: { handle: resumeHandle ?? undefined },
+          contextWindowCompression: { slidingWindow: {} },
+          tools: [{ functionDeclarations: getSessionTools(plan) }],
+        },
+        callbacks: {
+          onopen: async () => {
+            if (isStale()) return;
+            
+            if (outputContextRef.current?.state === 'suspended') {
+                try { await outputContextRef.current.resume(); } catch (e) { setNeedsInteraction(true); }
+            }
+            if (inputContextRef.current?.state === 'suspended') {
+                try { await inputContextRef.current.resume(); } catch (e) { setNeedsInteraction(true); }
+            }
 
-              setConnectionState(ConnectionState.CONNECTED);
-              console.log('Session Opened');
+            isSessionOpenRef.current = true;
+            reconnectAttempt = 0;
+            setReconnectAttempt(0);
+            setConnectionState(ConnectionState.CONNECTED);
 
-              try {
-                const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-                streamRef.current = stream;
-                
-                if (!inputContextRef.current) return;
-
-                const source = inputContextRef.current.createMediaStreamSource(stream);
-                inputSourceRef.current = source;
-                
-                const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-                scriptProcessorRef.current = processor;
-
-                processor.onaudioprocess = (e) => {
-                  if (!isMicOn) return; 
-                  const inputData = e.inputBuffer.getChannelData(0);
-                  const blob = createAudioBlob(inputData, AUDIO_SAMPLE_RATE_INPUT);
-                  
-                  sessionPromiseRef.current?.then(session => {
-                    session.sendRealtimeInput({ media: blob });
-                  });
-                };
-
-                source.connect(processor);
-                processor.connect(inputContextRef.current.destination);
-                
-                // Wait slightly for connection stability before triggering
-                setTimeout(() => {
-                    sessionPromiseRef.current?.then(session => {
-                        triggerModel(session);
-                    });
-                }, 500);
+            if (hasStarted) {
+              // Dropped before the coach ever spoke: the kickoff needs to go out again
+              if (!firstModelTurnReceived) {
+                kickoffAttempts = 0;
+                sendKickoff();
+              }
+              return;
+            }
+            hasStarted = true;
 
+            if (!isTextMode) {
+              try {
+                await startMicrophone();
               } catch (err) {
                 console.error("Mic Error:", err);
                 setConnectionState(ConnectionState.ERROR);
+                return;
               }
-            },
-            onmessage: async (msg: LiveServerMessage) => {
-              if (cleanup) return;
-              
-              const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-              if (audioData && outputContextRef.current) {
-                setIsThinking(false);
-                
-                const ctx = outputContextRef.current;
-                const buffer = await decodeAudioData(base64ToUint8Array(audioData), ctx, AUDIO_SAMPLE_RATE_OUTPUT);
-                
-                const source = ctx.createBufferSource();
-                source.buffer = buffer;
-                
-                if (outputAnalyserRef.current) {
-                   source.connect(outputAnalyserRef.current);
-                   outputAnalyserRef.current.connect(ctx.destination);
-                } else {
-                   source.connect(ctx.destination);
-                }
+            }
 
-                const currentTime = ctx.currentTime;
-                if (nextStartTimeRef.current < currentTime) {
-                  nextStartTimeRef.current = currentTime;
-                }
-                
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += buffer.duration;
-                
-                sourcesRef.current.add(source);
-                source.onended = () => {
-                  sourcesRef.current.delete(source);
-                };
-              }
+            // With audio still locked, the kickoff waits for the "Tap to Start" gesture
+            if (outputContextRef.current?.state === 'running') sendKickoff();
+          },
+          onmessage: async (msg: LiveServerMessage) => {
+            if (isStale()) return;
 
-              if (msg.serverContent?.interrupted) {
-                sourcesRef.current.forEach(s => s.stop());
-                sourcesRef.current.clear();
-                nextStartTimeRef.current = 0;
-                setIsThinking(false);
-              }
+            const resumption = msg.sessionResumptionUpdate;
+            if (resumption?.resumable && resumption.newHandle) {
+              resumeHandle = resumption.newHandle;
+            }
 
-              const inputTrans = msg.serverContent?.inputTranscription?.text;
-              const outputTrans = msg.serverContent?.outputTranscription?.text;
-              const turnComplete = msg.serverContent?.turnComplete;
+            if (msg.goAway) {
+              // Server is about to hit its session limit; move to a fresh socket before it drops us
+              console.warn(`Server going away (time left: ${msg.goAway.timeLeft}). Resuming on a new connection.`);
+              generation++;
+              isSessionOpenRef.current = false;
+              sessionPromise.then(s => s.close());
+              setConnectionState(ConnectionState.RECONNECTING);
+              connect();
+              return;
+            }
 
-              if (turnComplete) {
-                setIsThinking(false);
-                setTurnCount(prev => prev + 1); // Increment interaction count
+            const functionCalls = msg.toolCall?.functionCalls;
+            if (functionCalls?.length) {
+              // Reduce against the ref so several calls in one message all apply
+              let next = toolStateRef.current;
+              const functionResponses = functionCalls.map(call => {
+                const result = applySessionToolCall(next, call, plan);
+                next = result.state;
+                return { id: call.id, name: call.name, response: result.response };
+              });
+              if (functionCalls.some(call => call.name === 'set_target_phrase')) {
+                targetFromIndexRef.current = messagesRef.current.length;
               }
+              const newCorrections = next.corrections.slice(toolStateRef.current.corrections.length);
+              if (newCorrections.length) setMessages(prev => attachCorrections(prev, newCorrections));
+              toolStateRef.current = next;
+              setToolState(next);
+              sessionPromise.then(s => s.sendToolResponse({ functionResponses }));
+            }
+            
+            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audioData || msg.serverContent?.outputTranscription?.text) markFirstModelTurn();
 
-              if (inputTrans || outputTrans) {
-                setMessages(prev => {
-                  const newMsgs = [...prev];
-                  if (inputTrans) {
-                    setIsThinking(true); 
-                    const lastMsg = newMsgs[newMsgs.length - 1];
-                    if (lastMsg && lastMsg.role === 'user' && lastMsg.isPartial) {
-                       lastMsg.text += inputTrans;
-                    } else {
-                       newMsgs.push({ id: Date.now().toString(), role: 'user', text: inputTrans, isPartial: true });
-                    }
-                  }
-                  if (outputTrans) {
-                     const lastMsg = newMsgs[newMsgs.length - 1];
-                     if (lastMsg && lastMsg.role === 'model' && lastMsg.isPartial) {
-                        lastMsg.text += outputTrans;
-                        lastMsg.text = cleanText(lastMsg.text); // Clean existing
-                     } else {
-                        newMsgs.push({ 
-                            id: Date.now().toString(), 
-                            role: 'model', 
-                            text: cleanText(outputTrans), // Clean new
-                            isPartial: true 
-                        });
-                     }
-                  }
-                  if (turnComplete) {
-                     const lastMsg = newMsgs[newMsgs.length - 1];
-                     if(lastMsg) lastMsg.isPartial = false;
-                  }
-                  return newMsgs;
-                });
+            if (audioData && outputContextRef.current) {
+              setIsThinking(false);
+              
+              const ctx = outputContextRef.current;
+              const buffer = await decodeAudioData(base64ToUint8Array(audioData), ctx, AUDIO_SAMPLE_RATE_OUTPUT);
+              
+              const source = ctx.createBufferSource();
+              source.buffer = buffer;
+              
+              if (outputAnalyserRef.current) {
+                 source.connect(outputAnalyserRef.current);
+                 outputAnalyserRef.current.connect(ctx.destination);
+              } else {
+                 source.connect(ctx.destination);
               }
-            },
-            onclose: () => {
-              if(!cleanup) {
-                setConnectionState(ConnectionState.DISCONNECTED);
-                setIsThinking(false);
+
+              const currentTime = ctx.currentTime;
+              if (nextStartTimeRef.current < currentTime) {
+                nextStartTimeRef.current = currentTime;
               }
-            },
-            onerror: (err) => {
-              console.error(err);
-              setConnectionState(ConnectionState.ERROR);
+              
+              source.start(nextStartTimeRef.current);
+              recorderRef.current?.addCoachBuffer(
+                buffer.getChannelData(0),
+                performance.now() + (nextStartTimeRef.current - currentTime) * 1000
+              );
+              nextStartTimeRef.current += buffer.duration;
+              
+              sourcesRef.current.add(source);
+              source.onended = () => {
+                sourcesRef.current.delete(source);
+              };
+            }
+
+            if (msg.serverContent?.interrupted) {
+              recorderRef.current?.cutCoachAt(performance.now());
+              sourcesRef.current.forEach(s => s.stop());
+              sourcesRef.current.clear();
+              nextStartTimeRef.current = 0;
               setIsThinking(false);
             }
+
+            const inputTrans = msg.serverContent?.inputTranscription?.text;
+            const outputTrans = msg.serverContent?.outputTranscription?.text;
+            const turnComplete = msg.serverContent?.turnComplete;
+
+            if (turnComplete) setIsThinking(false);
+
+            if (inputTrans || outputTrans || turnComplete) {
+              setMessages(prev => {
+                const newMsgs = [...prev];
+                if (inputTrans) {
+                  setIsThinking(true); 
+                  const lastMsg = newMsgs[newMsgs.length - 1];
+                  if (lastMsg && lastMsg.role === 'user' && lastMsg.isPartial) {
+                     lastMsg.text += inputTrans;
+                  } else {
+                     newMsgs.push({ id: createMessageId(), role: 'user', text: inputTrans, isPartial: true, at: Date.now() });
+                  }
+                }
+                if (outputTrans) {
+                   const lastMsg = newMsgs[newMsgs.length - 1];
+                   if (lastMsg && lastMsg.role === 'model' && lastMsg.isPartial) {
+                      lastMsg.text += outputTrans;
+                      lastMsg.text = cleanText(lastMsg.text); // Clean existing
+                   } else {
+                      newMsgs.push({ 
+                          id: createMessageId(), 
+                          role: 'model', 
+                          text: cleanText(outputTrans), // Clean new
+                          isPartial: true,
+                          at: Date.now()
+                      });
+                   }
+                }
+                if (turnComplete) {
+                   const lastMsg = newMsgs[newMsgs.length - 1];
+                   if(lastMsg) lastMsg.isPartial = false;
+                }
+                return newMsgs;
+              });
+            }
+          },
+          onclose: () => {
+            if (isStale()) return;
+            scheduleReconnect();
+          },
+          onerror: (err) => {
+            if (isStale()) return;
+            console.error(err);
+            scheduleReconnect();
           }
-        });
+        }
+      });
+
+      sessionPromiseRef.current = sessionPromise;
+      sessionPromise.catch(err => {
+        if (isStale()) return;
+        console.error("Connect Error", err);
+        scheduleReconnect();
+      });
+    };
 
-        sessionPromiseRef.current = sessionPromise;
+    const startSession = async () => {
+      try {
+        setConnectionState(ConnectionState.CONNECTING);
+        
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        // Capture runs at the device's native rate; the worklet resamples (see utils/audioCapture.ts)
+        inputContextRef.current = new AudioContextClass();
+        outputContextRef.current = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_OUTPUT });
+
+        if (outputContextRef.current.state === 'suspended') {
+            setNeedsInteraction(true);
+        }
+
+        const analyser = outputContextRef.current.createAnalyser();
+        analyser.fftSize = 256;
+        outputAnalyserRef.current = analyser;
+
+        connect();
 
       } catch (e) {
         console.error("Setup Error", e);
@@ -278,32 +518,40 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
       }
     };
 
+    // Manual retry once automatic attempts are exhausted
+    retryConnectionRef.current = () => {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      sessionPromiseRef.current?.then(s => s.close());
+      // If the mic never came up, the next open should try it (and the kickoff) again
+      if (!isTextMode && !micCaptureRef.current) hasStarted = false;
+      reconnectAttempt = 0;
+      setReconnectAttempt(0);
+      setConnectionState(ConnectionState.CONNECTING);
+      connect();
+    };
+
+    startKickoffRef.current = () => {
+      kickoffAttempts = 0;
+      sendKickoff();
+    };
+
     startSession();
 
     return () => {
       cleanup = true;
+      isSessionOpenRef.current = false;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (kickoffTimer) clearTimeout(kickoffTimer);
       sessionPromiseRef.current?.then(s => s.close());
+      micCaptureRef.current?.stop();
       streamRef.current?.getTracks().forEach(t => t.stop());
       inputContextRef.current?.close();
       outputContextRef.current?.close();
       sourcesRef.current.forEach(s => s.stop());
     };
-  }, [apiKey, user, level, subject, step, character]);
-
-  const isMicOnRef = useRef(isMicOn);
-  useEffect(() => { isMicOnRef.current = isMicOn; }, [isMicOn]);
-  useEffect(() => {
-    if (scriptProcessorRef.current) {
-       scriptProcessorRef.current.onaudioprocess = (e) => {
-          if (!isMicOnRef.current) return; 
-          const inputData = e.inputBuffer.getChannelData(0);
-          const blob = createAudioBlob(inputData, AUDIO_SAMPLE_RATE_INPUT);
-          sessionPromiseRef.current?.then(session => {
-             session.sendRealtimeInput({ media: blob });
-          });
-       };
-    }
-  }, []);
+    // learnerMemory is left out on purpose: it is read when (re)connecting, and the memory
+    // being updated when a session ends must not reopen it
+  }, [transport, user, plan, character, isTextMode]);
 
   const chatContainerRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -316,14 +564,104 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
       if (outputContextRef.current?.state === 'suspended') await outputContextRef.current.resume();
       if (inputContextRef.current?.state === 'suspended') await inputContextRef.current.resume();
       setNeedsInteraction(false);
-      sessionPromiseRef.current?.then(session => triggerModel(session));
+      startKickoffRef.current();
   };
 
-  // Allow completion only after sufficient interaction (3 turns)
-  const canComplete = turnCount >= 3;
+  const handleSendText = () => {
+      const text = draft.trim();
+      if (!text || !isSessionOpenRef.current) return;
+
+      setMessages(prev => [
+        // A typed turn cuts off whatever the coach was saying
+        ...prev.map(m => m.isPartial ? { ...m, isPartial: false } : m),
+        { id: createMessageId(), role: 'user', text, at: Date.now(), isTyped: true },
+      ]);
+      setIsThinking(true);
+      setDraft('');
+
+      sessionPromiseRef.current?.then(session => {
+          session.sendClientContent({
+              turns: [{ role: 'user', parts: [{ text }] }],
+              turnComplete: true,
+          });
+      });
+  };
+
+  const handleMicButton = async () => {
+      if (outputContextRef.current?.state === 'suspended') await outputContextRef.current.resume();
+      if (inputContextRef.current?.state === 'suspended') await inputContextRef.current.resume();
+      if (!micCaptureRef.current) {
+          // Text-mode sessions only ask for the microphone when the learner opts in here
+          try {
+              setIsMicOn(true);
+              await startMicrophoneRef.current();
+          } catch (err) {
+              console.error("Mic Error:", err);
+              setIsMicOn(false);
+          }
+          return;
+      }
+      setIsMicOn(!isMicOn);
+  };
+
+  // Recording is opt-in and starts from the moment the learner switches it on
+  const handleToggleRecording = () => {
+      if (recordingState === 'recording') {
+          recorderRef.current?.stop();
+          setRecordingMs(recorderRef.current?.durationMs() ?? 0);
+          setRecordingState('stopped');
+      } else {
+          recorderRef.current = createSessionRecorder();
+          setRecordingMs(0);
+          setRecordingState('recording');
+      }
+  };
+
+  useEffect(() => {
+    if (recordingState !== 'recording') return;
+    const timer = setInterval(() => setRecordingMs(recorderRef.current?.durationMs() ?? 0), 500);
+    return () => clearInterval(timer);
+  }, [recordingState]);
+
+  useEffect(() => () => recorderRef.current?.stop(), []);
+
+  const recordingBaseName = () => {
+      const startedAt = new Date(recorderRef.current?.startedAtEpoch ?? Date.now());
+      return `linguoflow-${labels.slug}-${startedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+  };
+
+  const handleDownloadAudio = (layout: WavLayout) => {
+      if (!recorderRef.current) return;
+      const suffix = layout === 'tracks' ? '-tracks' : '';
+      downloadBlob(recorderRef.current.exportWav(layout), `${recordingBaseName()}${suffix}.wav`);
+  };
+
+  const handleDownloadTranscript = () => {
+      if (!recorderRef.current) return;
+      const text = formatTranscriptSidecar(
+          finalizeTranscript().messages,
+          recorderRef.current.startedAtEpoch,
+          t('session.transcriptHeading', { heading: labels.heading, coach: character.name }),
+          character.name,
+          t
+      );
+      downloadBlob(new Blob([text], { type: 'text/plain' }), `${recordingBaseName()}.txt`);
+  };
+
+  const formatClock = (ms: number) => {
+      const totalSeconds = Math.floor(ms / 1000);
+      return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+  };
+
+  const canSendText = connectionState === ConnectionState.CONNECTED && draft.trim().length > 0;
+
+  // Completion is gated on the coach's assessment, not on how much was said
+  const canComplete = assessment.passed;
+  const objectivesMet = assessment.objectivesMet.length;
+  const objectivesTotal = assessment.objectives.length;
 
   return (
-    <div className="flex flex-col h-full bg-slate-50 relative">
+    <div dir={dir} className="flex flex-col h-full bg-slate-50 relative">
       
       {needsInteraction && (
           <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center">
@@ -331,7 +669,50 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
                 onClick={handleStartInteraction}
                 className="bg-indigo-600 text-white font-bold text-xl px-8 py-4 rounded-full shadow-2xl animate-pulse hover:scale-105 transition-transform"
               >
-                  Tap to Start Session 🎙️
+                  {t('session.tapToStart')}
+              </button>
+          </div>
+      )}
+
+      {connectionState === ConnectionState.RECONNECTING && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 bg-amber-100 text-amber-800 text-sm font-medium px-4 py-2 rounded-full shadow flex items-center gap-2">
+              <div className="w-2 h-2 bg-amber-500 rounded-full animate-ping"></div>
+              {t('session.reconnecting', { attempt: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS })}
+          </div>
+      )}
+
+      {recordingState !== 'off' && (
+          <div className="absolute top-20 end-4 z-40 bg-white border border-slate-200 text-sm px-3 py-2 rounded-2xl shadow flex items-center gap-2">
+              {recordingState === 'recording' ? (
+                  <>
+                      <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+                      <span className="font-medium text-slate-700 tabular-nums">{formatClock(recordingMs)}</span>
+                  </>
+              ) : (
+                  <>
+                      <span className="text-slate-500 tabular-nums">{formatClock(recordingMs)}</span>
+                      <button onClick={() => handleDownloadAudio('mixed')} className="font-bold text-indigo-600 hover:underline">{t('session.downloadWav')}</button>
+                      <button onClick={() => handleDownloadAudio('tracks')} className="font-bold text-indigo-600 hover:underline">{t('session.downloadTracks')}</button>
+                      <button onClick={handleDownloadTranscript} className="font-bold text-indigo-600 hover:underline">{t('session.downloadTranscript')}</button>
+                  </>
+              )}
+          </div>
+      )}
+
+      {kickoffFailed && connectionState === ConnectionState.CONNECTED && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 bg-red-100 text-red-800 text-sm font-medium px-4 py-2 rounded-full shadow flex items-center gap-3">
+              {t('session.kickoffFailed', { coach: character.name })}
+              <button onClick={() => startKickoffRef.current()} className="font-bold underline hover:text-red-900">
+                  {t('common.tryAgain')}
+              </button>
+          </div>
+      )}
+
+      {connectionState === ConnectionState.ERROR && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 bg-red-100 text-red-800 text-sm font-medium px-4 py-2 rounded-full shadow flex items-center gap-3">
+              {t('session.connectionLost')}
+              <button onClick={() => retryConnectionRef.current()} className="font-bold underline hover:text-red-900">
+                  {t('common.tryAgain')}
               </button>
           </div>
       )}
@@ -342,23 +723,44 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
             {character.name[0]}
           </div>
           <div className="flex flex-col">
-            <h2 className="font-bold text-slate-800 leading-tight">{subject.title}</h2>
+            <h2 className="font-bold text-slate-800 leading-tight">{labels.title}</h2>
             <div className="flex items-center gap-2 text-xs text-slate-500">
-               <span className="bg-indigo-100 text-indigo-700 px-2 rounded-md font-bold">{step.title}</span>
+               <span className="bg-indigo-100 text-indigo-700 px-2 rounded-md font-bold">{labels.badge}</span>
                <span>•</span>
-               <span>Coach {character.name}</span>
+               <span>{t('session.coach', { coach: character.name })}</span>
+               {assessment.score !== undefined && (
+                 <span className="bg-green-100 text-green-700 px-2 rounded-md font-bold" title={assessment.feedback}>{assessment.score}/100</span>
+               )}
+               {toolState.capturedWords.length > 0 && (
+                 <span className="bg-purple-100 text-purple-700 px-2 rounded-md font-bold" title={toolState.capturedWords.map(w => w.term).join(', ')}>
+                   {t('session.toDeck', { count: toolState.capturedWords.length })}
+                 </span>
+               )}
+               {transport.isOffline && (
+                 <span className="bg-amber-100 text-amber-700 px-2 rounded-md font-bold">{t('session.offlineDemo')}</span>
+               )}
             </div>
           </div>
         </div>
         <div className="flex gap-2">
+            <button
+                onClick={handleToggleRecording}
+                title={recordingState === 'recording' ? t('session.stopRecording') : t('session.startRecording')}
+                className={`px-3 py-2 text-sm font-medium rounded-xl transition-all flex items-center gap-1.5 ${
+                    recordingState === 'recording' ? 'bg-red-50 text-red-600' : 'text-slate-500 hover:bg-slate-100'
+                }`}
+            >
+                <span className={`w-2.5 h-2.5 rounded-full ${recordingState === 'recording' ? 'bg-red-500' : 'bg-slate-400'}`}></span>
+                {recordingState === 'recording' ? t('session.stop') : t('session.rec')}
+            </button>
             <button 
-                onClick={onDisconnect}
+                onClick={() => onDisconnect(finalizeTranscript())}
                 className="px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-xl transition-all"
             >
-                Exit
+                {t('session.exit')}
             </button>
             <button 
-                onClick={canComplete ? onComplete : undefined}
+                onClick={canComplete ? () => onComplete(finalizeTranscript()) : undefined}
                 disabled={!canComplete}
                 className={`px-4 py-2 text-sm font-bold text-white rounded-xl shadow-lg transition-all active:scale-95 flex items-center gap-2 ${
                     canComplete 
@@ -366,11 +768,39 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
                     : 'bg-slate-300 cursor-not-allowed'
                 }`}
             >
-                {canComplete ? 'Complete Lesson' : `Pratice more (${3 - turnCount})`}
+                {canComplete ? labels.completeLabel : objectivesTotal > 0 ? `${labels.progressLabel} ${objectivesMet}/${objectivesTotal}` : `${labels.progressLabel}…`}
             </button>
         </div>
       </div>
 
+      {(assessment.objectives.length > 0 || assessment.finished) && (
+      <div className="flex items-center gap-2 px-6 py-2 bg-white border-b border-slate-100 text-xs z-20 overflow-x-auto scrollbar-hide">
+        {toolState.placement && (
+          <span className="shrink-0 bg-indigo-100 text-indigo-700 px-2 py-1 rounded-full font-bold" title={toolState.placement.rationale}>
+            {t('session.estimatedLevel', { level: toolState.placement.level })}
+          </span>
+        )}
+        {assessment.objectives.map((objective, i) => {
+          const isMet = assessment.objectivesMet.includes(i);
+          return (
+            <span
+              key={i}
+              title={objective}
+              className={`shrink-0 flex items-center gap-1.5 px-2 py-1 rounded-full font-medium max-w-[16rem] ${
+                isMet ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-500'
+              }`}
+            >
+              <span className={`w-2 h-2 rounded-full shrink-0 ${isMet ? 'bg-green-500' : 'bg-slate-300'}`}></span>
+              <span className="truncate">{objective}</span>
+            </span>
+          );
+        })}
+        {assessment.finished && !assessment.passed && (
+          <span className="shrink-0 text-amber-700 font-medium">{t('session.suggestRetry', { coach: character.name })}</span>
+        )}
+      </div>
+      )}
+
       <div className="flex-1 overflow-hidden relative flex flex-col items-center justify-center">
         
         <div 
@@ -380,20 +810,34 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
         >
             {messages.length === 0 && (
                 <div className="text-center mt-10 text-slate-400 text-sm">
-                    Conversation will appear here...
+                    {t('session.empty')}
                 </div>
             )}
-          {messages.map((msg, idx) => {
+          {messages.map(msg => {
              // Skip empty messages (e.g. filtered thought logs)
              if (!msg.text) return null;
+             // Bubbles sit on the reading side of the layout; the text inside keeps its own direction
              return (
-                 <div key={idx} className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm shadow-sm ${
+                 <div key={msg.id} className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div dir="auto" className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm shadow-sm ${
                        msg.role === 'user' 
-                       ? 'bg-indigo-500 text-white rounded-tr-none' 
-                       : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
+                       ? 'bg-indigo-500 text-white rounded-se-none' 
+                       : 'bg-white text-slate-800 border border-slate-200 rounded-ss-none'
                     }`}>
-                       {msg.text}
+                       {msg.pronunciation ? <PronunciationFeedback result={msg.pronunciation} t={t} />
+                         : msg.role === 'model' && !msg.isPartial && wordLookup ? (
+                           <TranslatableText
+                             text={msg.text}
+                             lexicon={lexicon}
+                             isImmersion={user.mode === 'immersion'}
+                             onLookup={term => handleLookup(term, msg.text)}
+                             onAddToDeck={deckSubject ? handleAddToDeck : undefined}
+                             isInDeck={isInDeck}
+                             t={t}
+                           />
+                         )
+                         : !msg.corrections && msg.text}
+                       {msg.corrections && <CorrectionFeedback corrections={msg.corrections} text={msg.pronunciation ? undefined : msg.text} t={t} />}
                     </div>
                  </div>
              );
@@ -401,13 +845,13 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
           
           {isThinking && (
              <div className="flex w-full justify-start animate-pulse">
-                <div className="bg-slate-100 text-slate-500 rounded-2xl rounded-tl-none px-4 py-3 text-sm shadow-sm flex items-center gap-2">
+                <div className="bg-slate-100 text-slate-500 rounded-2xl rounded-ss-none px-4 py-3 text-sm shadow-sm flex items-center gap-2">
                    <div className="flex gap-1">
                      <div className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
                      <div className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
                      <div className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
                    </div>
-                   <span>Thinking...</span>
+                   <span>{t('session.thinking')}</span>
                 </div>
              </div>
           )}
@@ -427,15 +871,21 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
              <div className="flex gap-2">
                  <input 
                     type="text" 
-                    disabled
-                    placeholder="Voice only mode (Text not supported)"
-                    className="flex-1 bg-slate-100 border-none rounded-full px-4 py-3 text-sm text-slate-400 cursor-not-allowed outline-none"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSendText()}
+                    disabled={connectionState !== ConnectionState.CONNECTED}
+                    placeholder={isMicReady ? t('session.placeholderVoice') : t('session.placeholderText')}
+                    className="flex-1 bg-slate-100 border-none rounded-full px-4 py-3 text-sm text-slate-800 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-indigo-300 disabled:cursor-not-allowed"
                  />
                  <button 
-                    disabled
-                    className="bg-slate-300 text-white rounded-full w-10 h-10 flex items-center justify-center cursor-not-allowed"
+                    onClick={handleSendText}
+                    disabled={!canSendText}
+                    className={`text-white rounded-full w-10 h-10 flex items-center justify-center transition ${
+                        canSendText ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-300 cursor-not-allowed'
+                    }`}
                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 rtl:-scale-x-100">
                       <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
                     </svg>
                  </button>
@@ -443,11 +893,8 @@ const LiveSession: React.FC<LiveSessionProps> = ({ user, level, subject, step, a
 
              <div className="absolute -top-16 left-1/2 -translate-x-1/2">
                 <button
-                    onClick={async () => {
-                        if (outputContextRef.current?.state === 'suspended') await outputContextRef.current.resume();
-                        if (inputContextRef.current?.state === 'suspended') await inputContextRef.current.resume();
-                        setIsMicOn(!isMicOn);
-                    }}
+                    onClick={handleMicButton}
+                    title={isMicReady ? (isMicOn ? t('session.mute') : t('session.unmute')) : t('session.useMic')}
                     className={`w-16 h-16 rounded-full flex items-center justify-center shadow-xl transform transition active:scale-95 ${
                     isMicOn 
                     ? 'bg-indigo-600 text-white border-4 border-white' 
@@ -1,40 +1,101 @@
-import React, { useState } from 'react';
-import { LANGUAGES } from '../constants';
-import { UserProfile, ProficiencyLevel, LearningMode } from '../types';
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_TARGET_LANGUAGE, getCurriculum, LANGUAGES, PROFILE_AVATARS, TARGET_LANGUAGES } from '../constants';
+import { UserProfile, ProficiencyLevel, LearningMode, InputMode, PlacementResult, SessionPlan, SessionTranscript, TargetLanguageCode, PROFICIENCY_LEVELS } from '../types';
+import { LiveTransport } from '../utils/liveTransport';
+import { createGamificationState, getLocalTimeZone } from '../utils/gamification';
+import { formatLanguageName, getTextDirection, getTranslator } from '../utils/i18n';
+import LiveSession from './LiveSession';
 
 interface OnboardingProps {
   onComplete: (profile: UserProfile) => void;
+  createTransport: (plan: SessionPlan) => LiveTransport | null;
+  onCancel?: () => void; // Back to the profile switcher when adding a profile
 }
 
-const LEVELS: { id: ProficiencyLevel; label: string; desc: string }[] = [
-  { id: 'A1', label: 'Beginner (A1)', desc: 'I know nothing / very little.' },
-  { id: 'A2', label: 'Elementary (A2)', desc: 'I can have basic exchanges.' },
-  { id: 'B1', label: 'Intermediate (B1)', desc: 'I can describe experiences.' },
-  { id: 'B2', label: 'Upper-Int (B2)', desc: 'I speak fluently.' },
-];
+const PLACEMENT_PLAN: SessionPlan = { kind: 'placement' };
 
-const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
+// Every subject in the levels below the given one
+const getSubjectsBelow = (language: TargetLanguageCode, level: ProficiencyLevel) =>
+  getCurriculum(language)
+    .filter(l => PROFICIENCY_LEVELS.indexOf(l.id) < PROFICIENCY_LEVELS.indexOf(level))
+    .flatMap(l => l.subjects);
+
+const Onboarding: React.FC<OnboardingProps> = ({ onComplete, createTransport, onCancel }) => {
   const [step, setStep] = useState(1);
   const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
   const [nativeLang, setNativeLang] = useState(LANGUAGES[0]);
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguageCode>(DEFAULT_TARGET_LANGUAGE);
   const [level, setLevel] = useState<ProficiencyLevel>('A1');
   const [mode, setMode] = useState<LearningMode>('assisted');
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [isPlacementRunning, setIsPlacementRunning] = useState(false);
+  const [placement, setPlacement] = useState<PlacementResult | null>(null);
+
+  // Onboarding switches to the native language as soon as it's picked
+  const t = getTranslator(nativeLang.code);
+  const dir = getTextDirection(nativeLang.code);
+  const languageName = (code: string) => formatLanguageName(code.split('-')[0], nativeLang.code);
 
   const nextStep = () => setStep(s => s + 1);
 
-  const handleFinish = () => {
-    onComplete({
+  const describePlacement = (result: PlacementResult) =>
+    result.confidence
+      ? t('onboarding.placementResultConfidence', { level: result.level, confidence: t(`confidence.${result.confidence}`) })
+      : t('onboarding.placementResult', { level: result.level });
+
+  // Earlier levels are only skipped if the learner keeps the level the placement test gave them
+  const buildProfile = (): UserProfile => {
+    const testedOut = placement?.level === level ? getSubjectsBelow(targetLanguage, level) : [];
+    return {
       name,
+      avatar,
       nativeLanguage: nativeLang,
+      targetLanguage,
       currentLevel: level,
       mode,
-      completedSubjects: [],
-      completedSteps: []
-    });
+      inputMode,
+      completedSubjects: testedOut.map(s => s.id),
+      completedSteps: testedOut.flatMap(s => s.steps.map(step => `${s.id}-${step.id}`)),
+      pronunciationScores: {},
+      testedOutSubjects: testedOut.map(s => s.id),
+      timeZone: getLocalTimeZone(),
+      gamification: createGamificationState(),
+      coachOverrides: {},
+      otherLanguages: {},
+    };
   };
 
+  const handleFinish = () => onComplete(buildProfile());
+
+  // The placement conversation runs before mode and input are chosen, with the defaults
+  const placementProfile = useMemo(() => isPlacementRunning ? buildProfile() : null, [isPlacementRunning]);
+  const placementTransport = useMemo(() => isPlacementRunning ? createTransport(PLACEMENT_PLAN) : null, [isPlacementRunning]);
+
+  const handlePlacementComplete = (transcript: SessionTranscript) => {
+    if (transcript.placement) {
+      setPlacement(transcript.placement);
+      setLevel(transcript.placement.level);
+    }
+    setIsPlacementRunning(false);
+  };
+
+  if (isPlacementRunning && placementProfile && placementTransport) {
+    return (
+      <div className="h-full w-full">
+        <LiveSession
+          user={placementProfile}
+          plan={PLACEMENT_PLAN}
+          transport={placementTransport}
+          onDisconnect={() => setIsPlacementRunning(false)}
+          onComplete={handlePlacementComplete}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-full flex flex-col items-center justify-center p-6 bg-slate-50 animate-fade-in">
+    <div dir={dir} className="min-h-full flex flex-col items-center justify-center p-6 bg-slate-50 animate-fade-in">
       <div className="w-full max-w-2xl bg-white rounded-3xl shadow-xl p-8 border border-slate-100">
         
         {/* Progress Bar */}
@@ -44,17 +105,43 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
 
         {step === 1 && (
           <div className="space-y-6 text-center">
-            <h2 className="text-3xl font-bold text-slate-800">Hi! What's your name?</h2>
+            <h2 className="text-3xl font-bold text-slate-800">{t('onboarding.nameTitle')}</h2>
+            <div className="flex flex-wrap justify-center gap-2">
+              {PROFILE_AVATARS.map(a => (
+                <button
+                  key={a}
+                  onClick={() => setAvatar(a)}
+                  className={`w-12 h-12 rounded-full text-2xl border-2 transition ${avatar === a ? 'border-indigo-500 bg-indigo-50 scale-110' : 'border-transparent hover:bg-slate-100'}`}
+                >
+                  {a}
+                </button>
+              ))}
+            </div>
             <input
               type="text"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              placeholder="Type your name..."
+              placeholder={t('onboarding.namePlaceholder')}
               className="w-full text-center text-2xl p-4 border-b-2 border-slate-300 focus:border-indigo-500 outline-none bg-transparent"
               onKeyDown={(e) => e.key === 'Enter' && name && nextStep()}
             />
             <div className="pt-4">
-               <label className="block text-sm font-medium text-slate-500 mb-2">My native language is:</label>
+               <label className="block text-sm font-medium text-slate-500 mb-2">{t('onboarding.targetLanguage')}</label>
+               <div className="grid grid-cols-3 gap-2">
+                 {Object.values(TARGET_LANGUAGES).map(l => (
+                    <button
+                        key={l.code}
+                        onClick={() => setTargetLanguage(l.code)}
+                        className={`p-3 rounded-xl border flex flex-col items-center gap-1 ${targetLanguage === l.code ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                    >
+                        <span className="text-xl">{l.flag}</span>
+                        <span className="text-xs font-medium">{formatLanguageName(l.code, nativeLang.code)}</span>
+                    </button>
+                 ))}
+               </div>
+            </div>
+            <div className="pt-4">
+               <label className="block text-sm font-medium text-slate-500 mb-2">{t('onboarding.nativeLanguage')}</label>
                <div className="grid grid-cols-2 gap-2">
                  {LANGUAGES.slice(0, 6).map(l => (
                     <button 
@@ -73,61 +160,93 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
               onClick={nextStep}
               className="w-full py-4 bg-indigo-600 text-white font-bold rounded-2xl shadow-lg shadow-indigo-500/30 disabled:opacity-50 disabled:cursor-not-allowed hover:scale-[1.02] transition-transform"
             >
-              Continue
+              {t('common.continue')}
             </button>
+            {onCancel && (
+              <button onClick={onCancel} className="text-sm text-slate-500 font-medium hover:text-slate-700">
+                {t('onboarding.backToProfiles')}
+              </button>
+            )}
           </div>
         )}
 
         {step === 2 && (
           <div className="space-y-6">
-            <h2 className="text-3xl font-bold text-center text-slate-800">Choose your Starting Point</h2>
+            <h2 className="text-3xl font-bold text-center text-slate-800">{t('onboarding.levelTitle')}</h2>
+            {placement ? (
+              <div className="p-4 rounded-2xl bg-indigo-50 border border-indigo-200 text-sm text-indigo-900">
+                <div className="font-bold">
+                  {describePlacement(placement)}
+                </div>
+                {placement.rationale && <div className="text-indigo-700 mt-1">{placement.rationale}</div>}
+                {getSubjectsBelow(targetLanguage, placement.level).length > 0 && (
+                  <div className="text-indigo-700 mt-1">{t('onboarding.testedOutBelow', { level: placement.level })}</div>
+                )}
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsPlacementRunning(true)}
+                className="w-full p-4 rounded-2xl border-2 border-dashed border-indigo-300 text-indigo-700 font-bold hover:bg-indigo-50 transition"
+              >
+                {t('onboarding.takePlacement')}
+              </button>
+            )}
             <div className="grid grid-cols-1 gap-4">
-              {LEVELS.map((lvl) => (
+              {PROFICIENCY_LEVELS.map((lvl) => (
                 <button
-                  key={lvl.id}
-                  onClick={() => setLevel(lvl.id)}
-                  className={`p-6 rounded-2xl border-2 text-left transition-all ${
-                    level === lvl.id 
+                  key={lvl}
+                  onClick={() => setLevel(lvl)}
+                  className={`p-6 rounded-2xl border-2 text-start transition-all ${
+                    level === lvl 
                     ? 'border-indigo-500 bg-indigo-50 shadow-md' 
                     : 'border-slate-200 hover:border-indigo-300'
                   }`}
                 >
-                  <div className="font-bold text-lg text-slate-800">{lvl.label}</div>
-                  <div className="text-slate-500">{lvl.desc}</div>
+                  <div className="font-bold text-lg text-slate-800">{t(`level.${lvl}.label`)}</div>
+                  <div className="text-slate-500">{t(`level.${lvl}.desc`)}</div>
                 </button>
               ))}
             </div>
             <button onClick={nextStep} className="w-full py-4 bg-indigo-600 text-white font-bold rounded-2xl shadow-lg hover:scale-[1.02] transition-transform">
-              Continue
+              {t('common.continue')}
             </button>
           </div>
         )}
 
         {step === 3 && (
           <div className="space-y-6 text-center">
-            <h2 className="text-3xl font-bold text-slate-800">Learning Mode</h2>
+            <h2 className="text-3xl font-bold text-slate-800">{t('onboarding.modeTitle')}</h2>
             <div className="flex flex-col gap-4">
                 <button
                     onClick={() => setMode('assisted')}
-                    className={`p-6 rounded-2xl border-2 text-left relative overflow-hidden ${mode === 'assisted' ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200'}`}
+                    className={`p-6 rounded-2xl border-2 text-start relative overflow-hidden ${mode === 'assisted' ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200'}`}
                 >
                     <div className="relative z-10">
-                        <div className="font-bold text-lg">Assisted Mode</div>
-                        <div className="text-sm text-slate-600">The coach will use {nativeLang.name} to explain mistakes and guide you. Best for beginners.</div>
+                        <div className="font-bold text-lg">{t('onboarding.assisted')}</div>
+                        <div className="text-sm text-slate-600">{t('onboarding.assistedDesc', { language: languageName(nativeLang.code) })}</div>
                     </div>
                 </button>
                 <button
                     onClick={() => setMode('immersion')}
-                    className={`p-6 rounded-2xl border-2 text-left relative overflow-hidden ${mode === 'immersion' ? 'border-red-500 bg-red-50' : 'border-slate-200'}`}
+                    className={`p-6 rounded-2xl border-2 text-start relative overflow-hidden ${mode === 'immersion' ? 'border-red-500 bg-red-50' : 'border-slate-200'}`}
                 >
                     <div className="relative z-10">
-                        <div className="font-bold text-lg text-red-700">Immersion Mode</div>
-                        <div className="text-sm text-slate-600">Only Portuguese! The coach will explain Portuguese using simpler Portuguese. For brave learners.</div>
+                        <div className="font-bold text-lg text-red-700">{t('onboarding.immersion')}</div>
+                        <div className="text-sm text-slate-600">{t('onboarding.immersionDesc', { language: languageName(targetLanguage) })}</div>
                     </div>
                 </button>
             </div>
+            <label className="flex items-center justify-center gap-3 text-sm text-slate-600 cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    checked={inputMode === 'text'}
+                    onChange={(e) => setInputMode(e.target.checked ? 'text' : 'voice')}
+                    className="w-4 h-4 accent-indigo-600"
+                />
+                {t('onboarding.typeInstead')}
+            </label>
             <button onClick={handleFinish} className="w-full py-4 bg-indigo-600 text-white font-bold rounded-2xl shadow-lg hover:scale-[1.02] transition-transform">
-              Start Learning
+              {t('onboarding.start')}
             </button>
           </div>
         )}
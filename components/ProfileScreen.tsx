@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getCurriculum, getTargetLanguage } from '../constants';
+import { SessionRecord, UserProfile } from '../types';
+import { loadHistory } from '../utils/historyStorage';
+import { getLongestStreak, getRecentDays, getStreak } from '../utils/gamification';
+import { formatLanguageName, getTextDirection, getTranslator } from '../utils/i18n';
+
+interface ProfileScreenProps {
+  profileId: string;
+  user: UserProfile;
+  onBack: () => void;
+  onOpenSettings: () => void;
+}
+
+const STREAK_HISTORY_DAYS = 28;
+
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ profileId, user, onBack, onOpenSettings }) => {
+  const t = getTranslator(user.nativeLanguage.code);
+  const dir = getTextDirection(user.nativeLanguage.code);
+  const languageName = formatLanguageName(user.targetLanguage, user.nativeLanguage.code);
+  const [history, setHistory] = useState<SessionRecord[] | null>(null);
+
+  useEffect(() => {
+    loadHistory(profileId, user.targetLanguage)
+      .then(setHistory)
+      .catch(e => {
+        console.error("Failed to load session history", e);
+        setHistory([]);
+      });
+  }, [profileId, user.targetLanguage]);
+
+  // Time in lessons, including ones the learner left early
+  const minutesSpoken = useMemo(
+    () => Math.round((history ?? []).reduce((sum, record) => sum + record.durationMs, 0) / 60000),
+    [history]
+  );
+
+  const levelProgress = useMemo(() => getCurriculum(user.targetLanguage).map(level => {
+    const stepIds = level.subjects.flatMap(s => s.steps.map(step => `${s.id}-${step.id}`));
+    return {
+      level,
+      total: stepIds.length,
+      completed: stepIds.filter(id => user.completedSteps.includes(id)).length,
+    };
+  }), [user.completedSteps, user.targetLanguage]);
+
+  const now = Date.now();
+  const streak = getStreak(user.gamification, now, user.timeZone);
+  const days = getRecentDays(user.gamification, now, user.timeZone, STREAK_HISTORY_DAYS);
+
+  const stats = [
+    { icon: '🔥', label: t('profile.dayStreak'), value: streak },
+    { icon: '🏅', label: t('profile.longestStreak'), value: getLongestStreak(user.gamification) },
+    { icon: '⚡', label: t('profile.totalXp'), value: user.gamification.xp },
+    { icon: '🎙️', label: t('profile.minutesSpoken'), value: history === null ? '…' : minutesSpoken },
+  ];
+
+  return (
+    <div dir={dir} className="h-full bg-[#111111] text-white flex flex-col font-sans">
+      <div className="bg-[#111111] border-b border-[#222] px-4 py-3 flex items-center gap-3">
+        <button onClick={onBack} className="text-gray-400 hover:text-white text-2xl px-2 rtl:-scale-x-100">←</button>
+        <h1 className="font-bold text-lg flex-1">{t('nav.profile')}</h1>
+        <button onClick={onOpenSettings} className="text-sm font-bold text-gray-400 hover:text-white px-2">{t('settings.title')}</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6 scrollbar-hide">
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 rounded-full bg-[#222] border border-[#333] flex items-center justify-center text-4xl">
+            {user.avatar}
+          </div>
+          <div>
+            <div className="text-xl font-bold">{user.name}</div>
+            <div className="text-sm text-gray-400">
+              {getTargetLanguage(user.targetLanguage).flag} {t('map.learning', { language: languageName })} · {t('profile.startedAt', { level: user.currentLevel })} · {t(user.mode === 'immersion' ? 'onboarding.immersion' : 'onboarding.assisted')}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-[#1b1b1b] border border-[#2b2b2b] rounded-2xl p-4">
+              <div className="text-2xl font-bold">{stat.icon} {stat.value}</div>
+              <div className="text-xs text-gray-400 uppercase tracking-wide mt-1">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-3">{t('profile.stepsCompleted', { language: languageName })}</h2>
+          <div className="space-y-3">
+            {levelProgress.map(({ level, total, completed }) => (
+              <div key={level.id}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-bold">{level.title}</span>
+                  <span className="text-gray-400">{completed}/{total}</span>
+                </div>
+                <div className="w-full bg-[#222] h-2 rounded-full">
+                  <div className="bg-[#FFC800] h-2 rounded-full transition-all" style={{ width: `${total ? (completed / total) * 100 : 0}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-3">{t('profile.lastDays', { count: STREAK_HISTORY_DAYS })}</h2>
+          <div className="grid grid-cols-7 gap-1.5">
+            {days.map(d => (
+              <div
+                key={d.day}
+                title={d.frozen ? t('profile.dayFrozen', { day: d.day }) : t('profile.dayXp', { day: d.day, xp: d.xp })}
+                className={`aspect-square rounded-md ${
+                  d.frozen ? 'bg-blue-400/60'
+                  : d.goalMet ? 'bg-[#FFC800]'
+                  : d.xp > 0 ? 'bg-[#FFC800]/40'
+                  : 'bg-[#222]'
+                }`}
+              ></div>
+            ))}
+          </div>
+          <div className="flex gap-4 text-[10px] text-gray-500 mt-2">
+            <span><span className="inline-block w-2 h-2 rounded-sm bg-[#FFC800] me-1"></span>{t('profile.goalMet')}</span>
+            <span><span className="inline-block w-2 h-2 rounded-sm bg-[#FFC800]/40 me-1"></span>{t('profile.practised')}</span>
+            <span><span className="inline-block w-2 h-2 rounded-sm bg-blue-400/60 me-1"></span>{t('profile.freeze')}</span>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileScreen;
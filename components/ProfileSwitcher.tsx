@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { UserProfile } from '../types';
+import { loadProfile } from '../utils/profileStorage';
+import { isValidPin, PIN_LENGTH, verifyPin } from '../utils/profileLock';
+import { getPreferredLocale, getTextDirection, getTranslator } from '../utils/i18n';
+
+interface ProfileSwitcherProps {
+  profileIds: string[];
+  onSelect: (profileId: string, profile: UserProfile) => void;
+  onAdd: () => void;
+  onRemove: (profileId: string) => void;
+}
+
+type PendingAction = { profileId: string; profile: UserProfile; action: 'open' | 'remove'; isUnlocked: boolean };
+
+// Startup screen on shared devices: pick who is learning, add someone, or remove a profile.
+// Locked profiles ask for their PIN before opening or being removed.
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profileIds, onSelect, onAdd, onRemove }) => {
+  const [profiles, setProfiles] = useState<{ id: string; profile: UserProfile }[] | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState(false);
+
+  // No profile is open yet, so the browser's language is used until someone is picked
+  const locale = pending ? pending.profile.nativeLanguage.code : getPreferredLocale();
+  const t = getTranslator(locale);
+  const dir = getTextDirection(locale);
+
+  useEffect(() => {
+    Promise.all(profileIds.map(async id => ({ id, profile: await loadProfile(id) })))
+      .then(loaded => setProfiles(loaded.filter((p): p is { id: string; profile: UserProfile } => !!p.profile)))
+      .catch(e => {
+        console.error("Failed to load profiles", e);
+        setProfiles([]);
+      });
+  }, [profileIds]);
+
+  const start = (profileId: string, profile: UserProfile, action: PendingAction['action']) => {
+    setPin('');
+    setPinError(false);
+    if (action === 'open' && !profile.pinHash) onSelect(profileId, profile);
+    else setPending({ profileId, profile, action, isUnlocked: !profile.pinHash });
+  };
+
+  const handlePinSubmit = async () => {
+    if (!pending?.profile.pinHash || !isValidPin(pin)) return;
+    if (!(await verifyPin(pin, pending.profile.pinHash))) {
+      setPinError(true);
+      setPin('');
+      return;
+    }
+    if (pending.action === 'open') onSelect(pending.profileId, pending.profile);
+    else setPending({ ...pending, isUnlocked: true });
+  };
+
+  const handleRemove = () => {
+    if (!pending) return;
+    onRemove(pending.profileId);
+    setPending(null);
+    setIsEditing(false);
+  };
+
+  return (
+    <div dir={dir} className="min-h-full flex flex-col items-center justify-center p-6 bg-slate-50 animate-fade-in">
+      <div className="w-full max-w-2xl bg-white rounded-3xl shadow-xl p-8 border border-slate-100">
+        {pending ? (
+          <div className="space-y-6 text-center">
+            <div className="text-6xl">{pending.profile.avatar}</div>
+            {!pending.isUnlocked ? (
+              <>
+                <h2 className="text-2xl font-bold text-slate-800">{t('profiles.enterPin', { name: pending.profile.name })}</h2>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoFocus
+                  maxLength={PIN_LENGTH}
+                  value={pin}
+                  onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setPinError(false); }}
+                  onKeyDown={(e) => e.key === 'Enter' && handlePinSubmit()}
+                  dir="ltr"
+                  className="w-40 text-center text-3xl tracking-[0.5em] p-3 border-b-2 border-slate-300 focus:border-indigo-500 outline-none bg-transparent"
+                />
+                {pinError && <div className="text-sm text-red-500">{t('profiles.wrongPin')}</div>}
+                <button
+                  disabled={!isValidPin(pin)}
+                  onClick={handlePinSubmit}
+                  className="w-full py-4 bg-indigo-600 text-white font-bold rounded-2xl shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pending.action === 'open' ? t('profiles.unlock') : t('common.continue')}
+                </button>
+              </>
+            ) : (
+              <>
+                <h2 className="text-2xl font-bold text-slate-800">{t('profiles.removeTitle', { name: pending.profile.name })}</h2>
+                <p className="text-slate-500">{t('profiles.removeHint')}</p>
+                <button onClick={handleRemove} className="w-full py-4 bg-red-600 text-white font-bold rounded-2xl shadow-lg hover:bg-red-700">
+                  {t('profiles.remove')}
+                </button>
+              </>
+            )}
+            <button onClick={() => setPending(null)} className="text-slate-500 font-medium hover:text-slate-700">{t('common.cancel')}</button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-3xl font-bold text-slate-800">{t('profiles.title')}</h2>
+              {profiles && profiles.length > 0 && (
+                <button onClick={() => setIsEditing(e => !e)} className="text-sm font-bold text-indigo-600 hover:text-indigo-800">
+                  {isEditing ? t('profiles.done') : t('profiles.edit')}
+                </button>
+              )}
+            </div>
+            {profiles === null ? (
+              <div className="text-center text-slate-400 text-sm">{t('common.loading')}</div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {profiles.map(({ id, profile }) => (
+                  <button
+                    key={id}
+                    onClick={() => start(id, profile, isEditing ? 'remove' : 'open')}
+                    className={`relative p-4 rounded-2xl border-2 flex flex-col items-center gap-2 transition ${
+                      isEditing ? 'border-red-200 hover:border-red-400' : 'border-slate-200 hover:border-indigo-400'
+                    }`}
+                  >
+                    {isEditing && <span className="absolute top-2 end-3 text-red-500 font-bold">✕</span>}
+                    <span className="text-5xl">{profile.avatar}</span>
+                    <span className="font-bold text-slate-800 truncate max-w-full">{profile.name}</span>
+                    <span className="text-xs text-slate-400">{profile.currentLevel}{profile.pinHash ? ' · 🔒' : ''}</span>
+                  </button>
+                ))}
+                {!isEditing && (
+                  <button
+                    onClick={onAdd}
+                    className="p-4 rounded-2xl border-2 border-dashed border-slate-300 flex flex-col items-center justify-center gap-2 text-slate-500 hover:border-indigo-400 hover:text-indigo-600 transition"
+                  >
+                    <span className="text-4xl">＋</span>
+                    <span className="font-bold">{t('profiles.add')}</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
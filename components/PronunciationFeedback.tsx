@@ -0,0 +1,44 @@
+import React from 'react';
+import { PronunciationResult } from '../types';
+import { MISPRONOUNCED_BELOW } from '../utils/pronunciation';
+import { Translate } from '../utils/i18n';
+
+interface PronunciationFeedbackProps {
+  result: PronunciationResult;
+  t: Translate;
+}
+
+// Body of a learner bubble whose attempt was scored: the words as heard, with
+// mispronounced and skipped ones marked, and the overall score against the target
+const PronunciationFeedback: React.FC<PronunciationFeedbackProps> = ({ result, t }) => {
+  const scoreClass = result.score >= 85 ? 'bg-green-400 text-green-950' : result.score >= MISPRONOUNCED_BELOW ? 'bg-amber-300 text-amber-950' : 'bg-red-400 text-red-950';
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex flex-wrap gap-x-1">
+        {result.words.map((word, i) => {
+          const isMissed = word.heard === undefined;
+          const isWeak = word.score < MISPRONOUNCED_BELOW;
+          return (
+            <span
+              key={i}
+              title={isMissed ? t('pronunciation.missed', { word: word.expected }) : `"${word.expected}" · ${word.score}%`}
+              className={
+                isMissed ? 'line-through opacity-60'
+                : isWeak ? 'underline decoration-wavy decoration-red-300 underline-offset-4'
+                : ''
+              }
+            >
+              {isMissed ? word.expected : word.heard}
+            </span>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2 text-[11px] opacity-90">
+        <span className={`px-1.5 rounded font-bold ${scoreClass}`}>🎯 {result.score}</span>
+        <span className="truncate">{t('pronunciation.target', { target: result.target })}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationFeedback;
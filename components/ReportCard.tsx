@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { LessonReport, UserProfile } from '../types';
+import { getTextDirection, getTranslator } from '../utils/i18n';
+import { formatReportText, formatSpeakingTime, formatStars } from '../utils/reportCard';
+import { renderReportImage } from '../utils/reportImage';
+import { shareOrDownload } from '../utils/download';
+import CorrectionFeedback from './CorrectionFeedback';
+
+interface ReportCardProps {
+  user: UserProfile;
+  title: string; // e.g. "Greetings · Vocabulary"
+  report: LessonReport;
+  fileBaseName: string;
+  onContinue: () => void;
+}
+
+const scoreClass = (score: number) => score >= 85 ? 'text-green-400' : score >= 60 ? 'text-amber-300' : 'text-red-400';
+
+// Shown between a completed lesson and the map
+const ReportCard: React.FC<ReportCardProps> = ({ user, title, report, fileBaseName, onContinue }) => {
+  const t = getTranslator(user.nativeLanguage.code);
+  const dir = getTextDirection(user.nativeLanguage.code);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const share = (makeBlob: () => Promise<Blob> | Blob, extension: string) => {
+    setIsSharing(true);
+    Promise.resolve()
+      .then(makeBlob)
+      .then(blob => shareOrDownload(blob, `${fileBaseName}.${extension}`, title))
+      .catch(e => console.error("Failed to share report card", e))
+      .finally(() => setIsSharing(false));
+  };
+
+  const handleShareImage = () => share(() => renderReportImage(report, title, t, dir), 'png');
+  const handleShareText = () => share(() => new Blob([formatReportText(report, title, t)], { type: 'text/plain' }), 'txt');
+
+  return (
+    <div dir={dir} className="h-full bg-[#111111] text-white flex flex-col font-sans">
+      <div className="flex-1 overflow-y-auto px-4 pt-10 pb-6 scrollbar-hide">
+        <div className="max-w-md mx-auto flex flex-col gap-5">
+          <div className="text-center">
+            <div className="text-xs font-bold uppercase tracking-wider text-green-400">{t('report.title')}</div>
+            <h1 className="text-xl font-bold mt-1">{title}</h1>
+            <div className="text-4xl text-[#FFC800] mt-3" aria-label={t('report.rating', { rating: report.rating })}>
+              {formatStars(report.rating)}
+            </div>
+            <div className="text-sm text-gray-400 mt-1">{report.score}/100</div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 text-center">
+            <div className="bg-[#1b1b1b] border border-[#2b2b2b] rounded-2xl p-3">
+              <div className="text-2xl font-bold">🎙️ {formatSpeakingTime(report.speakingMs)}</div>
+              <div className="text-xs text-gray-400">{t('report.speakingTime')}</div>
+            </div>
+            <div className="bg-[#1b1b1b] border border-[#2b2b2b] rounded-2xl p-3">
+              <div className="text-2xl font-bold text-[#FFC800]">+{report.xp ?? 0}</div>
+              <div className="text-xs text-gray-400">XP</div>
+            </div>
+          </div>
+
+          {report.summary && (
+            <p dir="auto" className="text-sm text-gray-300 bg-[#1b1b1b] border border-[#2b2b2b] rounded-2xl p-4">{report.summary}</p>
+          )}
+
+          <section>
+            <h2 className="text-sm font-bold text-green-400 mb-2">{t('report.newWords')}</h2>
+            {report.newWords.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('report.noNewWords')}</p>
+            ) : (
+              <ul className="flex flex-wrap gap-2">
+                {report.newWords.map(word => (
+                  <li key={word.term} className="bg-purple-500/20 border border-purple-500/40 rounded-xl px-3 py-1 text-sm">
+                    <span dir="auto" className="font-bold">{word.term}</span>
+                    <span dir="auto" className="text-gray-400"> · {word.gloss}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {report.phrases.length > 0 && (
+            <section>
+              <h2 className="text-sm font-bold text-green-400 mb-2">{t('report.phrases')}</h2>
+              <ul className="space-y-1">
+                {report.phrases.map(phrase => (
+                  <li key={phrase.phrase} className="flex justify-between gap-3 text-sm">
+                    <span dir="auto">{phrase.phrase}</span>
+                    <span className={`font-bold shrink-0 ${scoreClass(phrase.score)}`}>{phrase.score}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section>
+            <h2 className="text-sm font-bold text-green-400 mb-2">{t('report.corrections')}</h2>
+            {report.corrections.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('report.noCorrections')}</p>
+            ) : (
+              <ul className="space-y-2">
+                {report.corrections.map((correction, i) => (
+                  <li key={i} dir="auto" className="text-sm bg-[#1b1b1b] border border-[#2b2b2b] rounded-xl px-3 py-2">
+                    <CorrectionFeedback corrections={[correction]} t={t} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <div className="border-t border-[#222] px-4 py-4">
+        <div className="max-w-md mx-auto flex flex-col gap-2">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleShareImage}
+              disabled={isSharing}
+              className="bg-[#222] border border-[#333] hover:border-[#444] rounded-xl py-2 text-sm font-bold disabled:opacity-50"
+            >
+              🖼️ {t('report.shareImage')}
+            </button>
+            <button
+              onClick={handleShareText}
+              disabled={isSharing}
+              className="bg-[#222] border border-[#333] hover:border-[#444] rounded-xl py-2 text-sm font-bold disabled:opacity-50"
+            >
+              📄 {t('report.shareText')}
+            </button>
+          </div>
+          <button
+            onClick={onContinue}
+            className="w-full bg-[#22c55e] hover:bg-green-400 text-white font-bold uppercase tracking-wide py-3 rounded-2xl shadow-[0_4px_0_0_#15803d]"
+          >
+            {t('common.continue')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportCard;
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { LANGUAGES, PROFILE_AVATARS, TARGET_LANGUAGES } from '../constants';
+import { InputMode, LearningMode, TargetLanguageCode, UserProfile } from '../types';
+import { VoicePreviewer } from '../utils/voicePreview';
+import { hashPin, isValidPin, PIN_LENGTH } from '../utils/profileLock';
+import { getStudiedLanguages, switchTargetLanguage } from '../utils/languageProgress';
+import { formatLanguageName, getTextDirection, getTranslator, MessageKey } from '../utils/i18n';
+import CharacterSelector from './CharacterSelector';
+
+interface SettingsScreenProps {
+  user: UserProfile;
+  onChange: (profile: UserProfile) => void;
+  onResetProgress: () => void;
+  onBack: () => void;
+  onSwitchProfile: () => void;
+  voicePreviewer: VoicePreviewer;
+}
+
+const MODES: { id: LearningMode; label: MessageKey; desc: MessageKey }[] = [
+  { id: 'assisted', label: 'settings.assisted', desc: 'settings.assistedDesc' },
+  { id: 'immersion', label: 'settings.immersion', desc: 'settings.immersionDesc' },
+];
+
+const INPUT_MODES: { id: InputMode; icon: string; label: MessageKey }[] = [
+  { id: 'voice', icon: '🎙️', label: 'settings.speak' },
+  { id: 'text', icon: '⌨️', label: 'settings.type' },
+];
+
+// Changes apply to the profile straight away, and so to the next lesson
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ user, onChange, onResetProgress, onBack, onSwitchProfile, voicePreviewer }) => {
+  const [name, setName] = useState(user.name);
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const studiedLanguages = getStudiedLanguages(user);
+  const t = getTranslator(user.nativeLanguage.code);
+  const dir = getTextDirection(user.nativeLanguage.code);
+
+  // The name is only saved once it's not blank
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== user.name) onChange({ ...user, name: trimmed });
+    else setName(user.name);
+  };
+
+  const handleSetPin = async () => {
+    if (!isValidPin(newPin)) return;
+    onChange({ ...user, pinHash: await hashPin(newPin) });
+    setNewPin('');
+  };
+
+  const handleReset = () => {
+    onResetProgress();
+    setIsConfirmingReset(false);
+  };
+
+  return (
+    <div dir={dir} className="h-full bg-[#111111] text-white flex flex-col font-sans">
+      <div className="bg-[#111111] border-b border-[#222] px-4 py-3 flex items-center gap-3">
+        <button onClick={onBack} className="text-gray-400 hover:text-white text-2xl px-2 rtl:-scale-x-100">←</button>
+        <h1 className="font-bold text-lg flex-1">{t('settings.title')}</h1>
+        <button onClick={onSwitchProfile} className="text-sm font-bold text-gray-400 hover:text-white px-2">{t('settings.switchProfile')}</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6 scrollbar-hide">
+        <section>
+          <label className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.name')}</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            className="w-full bg-[#222] border border-[#333] rounded-xl px-4 py-2 outline-none focus:border-blue-500"
+          />
+        </section>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.avatar')}</h2>
+          <div className="flex flex-wrap gap-2">
+            {PROFILE_AVATARS.map(avatar => (
+              <button
+                key={avatar}
+                onClick={() => onChange({ ...user, avatar })}
+                className={`w-10 h-10 rounded-full text-xl border ${user.avatar === avatar ? 'border-blue-500 bg-blue-500/10' : 'border-transparent hover:bg-[#222]'}`}
+              >
+                {avatar}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.pin')}</h2>
+          <p className="text-xs text-gray-500 mb-2">
+            {user.pinHash ? t('settings.pinLocked') : t('settings.pinHint')}
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              inputMode="numeric"
+              maxLength={PIN_LENGTH}
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+              placeholder={t('settings.pinDigits', { count: PIN_LENGTH })}
+              className="w-32 bg-[#222] border border-[#333] rounded-xl px-4 py-2 tracking-widest outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={handleSetPin}
+              disabled={!isValidPin(newPin)}
+              className="px-4 rounded-xl border border-[#333] font-bold hover:border-[#555] disabled:opacity-40"
+            >
+              {user.pinHash ? t('settings.changePin') : t('settings.setPin')}
+            </button>
+            {user.pinHash && (
+              <button
+                onClick={() => onChange({ ...user, pinHash: undefined })}
+                className="px-4 rounded-xl border border-[#333] font-bold text-gray-400 hover:border-[#555]"
+              >
+                {t('settings.removePin')}
+              </button>
+            )}
+          </div>
+        </section>
+
+        <section>
+          <label className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.targetLanguage')}</label>
+          <select
+            value={user.targetLanguage}
+            onChange={(e) => onChange(switchTargetLanguage(user, e.target.value as TargetLanguageCode))}
+            className="w-full bg-[#222] border border-[#333] rounded-xl px-3 py-2"
+          >
+            {Object.values(TARGET_LANGUAGES).map(l => (
+              <option key={l.code} value={l.code}>
+                {l.flag} {formatLanguageName(l.code, user.nativeLanguage.code)}{studiedLanguages.includes(l.code) ? '' : ` · ${t('settings.newLanguage')}`}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">{t('settings.targetLanguageHint')}</p>
+        </section>
+
+        <section>
+          <label className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.nativeLanguage')}</label>
+          <select
+            value={user.nativeLanguage.code}
+            onChange={(e) => {
+              const language = LANGUAGES.find(l => l.code === e.target.value);
+              if (language) onChange({ ...user, nativeLanguage: language });
+            }}
+            className="w-full bg-[#222] border border-[#333] rounded-xl px-3 py-2"
+          >
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.flag} {formatLanguageName(l.code, user.nativeLanguage.code)}</option>)}
+          </select>
+        </section>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.mode')}</h2>
+          <div className="grid grid-cols-2 gap-2">
+            {MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => onChange({ ...user, mode: mode.id })}
+                className={`rounded-xl border p-3 text-start ${
+                  user.mode === mode.id ? 'border-blue-500 bg-blue-500/10' : 'border-[#333] hover:border-[#555]'
+                }`}
+              >
+                <div className="font-bold">{t(mode.label)}</div>
+                <div className="text-xs text-gray-400">{t(mode.desc)}</div>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.answerBy')}</h2>
+          <div className="grid grid-cols-2 gap-2">
+            {INPUT_MODES.map(input => (
+              <button
+                key={input.id}
+                onClick={() => onChange({ ...user, inputMode: input.id })}
+                className={`rounded-xl border p-3 font-bold ${
+                  user.inputMode === input.id ? 'border-blue-500 bg-blue-500/10' : 'border-[#333] hover:border-[#555]'
+                }`}
+              >
+                {input.icon} {t(input.label)}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('settings.coaches')}</h2>
+          <CharacterSelector
+            overrides={user.coachOverrides}
+            onChange={coachOverrides => onChange({ ...user, coachOverrides })}
+            language={user.targetLanguage}
+            previewer={voicePreviewer}
+            t={t}
+          />
+        </section>
+
+        <section className="border border-red-500/30 rounded-2xl p-4">
+          <h2 className="font-bold text-red-400">{t('settings.reset')}</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {t('settings.resetHint')}
+          </p>
+          {isConfirmingReset ? (
+            <div className="flex gap-2 mt-3">
+              <button onClick={handleReset} className="flex-1 py-2 rounded-xl bg-red-600 hover:bg-red-700 font-bold">
+                {t('settings.resetConfirm')}
+              </button>
+              <button onClick={() => setIsConfirmingReset(false)} className="flex-1 py-2 rounded-xl border border-[#333] hover:border-[#555] font-bold">
+                {t('common.cancel')}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsConfirmingReset(true)}
+              className="mt-3 w-full py-2 rounded-xl border border-red-500/50 text-red-400 hover:bg-red-500/10 font-bold"
+            >
+              {t('settings.resetStart')}
+            </button>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsScreen;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { GamificationState, UserProfile } from '../types';
+import {
+  buyStreakFreeze,
+  DAILY_GOAL_OPTIONS,
+  getRecentDays,
+  getStreak,
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_COST,
+} from '../utils/gamification';
+import { getTranslator } from '../utils/i18n';
+import GoalRing from './GoalRing';
+
+interface StreakPanelProps {
+  user: UserProfile;
+  onChange: (state: GamificationState) => void;
+  onClose: () => void;
+}
+
+// Dropdown under the LessonMap header: this week's goal rings, streak freezes and the daily goal
+const StreakPanel: React.FC<StreakPanelProps> = ({ user, onChange, onClose }) => {
+  const t = getTranslator(user.nativeLanguage.code);
+  const weekday = new Intl.DateTimeFormat(user.nativeLanguage.code, { weekday: 'narrow', timeZone: 'UTC' });
+  const state = user.gamification;
+  const now = Date.now();
+  const streak = getStreak(state, now, user.timeZone);
+  const week = getRecentDays(state, now, user.timeZone, 7);
+  const canBuyFreeze = state.gems >= STREAK_FREEZE_COST && state.streakFreezes < MAX_STREAK_FREEZES;
+
+  const handleBuyFreeze = () => {
+    const next = buyStreakFreeze(state);
+    if (next) onChange(next);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose}></div>
+      <div className="absolute top-full end-2 mt-2 z-50 w-80 bg-[#1b1b1b] border border-[#333] rounded-2xl shadow-2xl p-4 space-y-4 text-sm">
+        <div className="flex items-baseline justify-between">
+          <span className="font-bold text-lg text-orange-500">🔥 {t('streak.days', { count: streak })}</span>
+          <span className="text-gray-400">{t('streak.totalXp', { xp: state.xp })}</span>
+        </div>
+
+        <div className="flex justify-between">
+          {week.map(d => (
+            <div key={d.day} className="flex flex-col items-center gap-1">
+              <GoalRing progress={d.xp / state.dailyGoalXp} size={30} color={d.frozen ? '#60a5fa' : '#FFC800'}>
+                {d.frozen ? '🧊' : d.goalMet ? '✓' : ''}
+              </GoalRing>
+              <span className="text-[10px] text-gray-500">{weekday.format(new Date(`${d.day}T00:00:00Z`))}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between bg-[#222] rounded-xl px-3 py-2">
+          <div>
+            <div className="font-bold">🧊 {t('streak.freezes', { count: state.streakFreezes })}</div>
+            <div className="text-xs text-gray-400">{t('streak.freezeHint', { max: MAX_STREAK_FREEZES })}</div>
+          </div>
+          <button
+            onClick={handleBuyFreeze}
+            disabled={!canBuyFreeze}
+            className="shrink-0 px-3 py-1.5 rounded-lg font-bold text-blue-300 border border-blue-400/50 disabled:opacity-40 disabled:cursor-not-allowed hover:bg-blue-400/10"
+          >
+            💎 {STREAK_FREEZE_COST}
+          </button>
+        </div>
+
+        <div>
+          <div className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t('streak.dailyGoal')}</div>
+          <div className="grid grid-cols-4 gap-2">
+            {DAILY_GOAL_OPTIONS.map(option => (
+              <button
+                key={option.xp}
+                onClick={() => onChange({ ...state, dailyGoalXp: option.xp })}
+                className={`rounded-xl border px-1 py-2 flex flex-col items-center ${
+                  state.dailyGoalXp === option.xp ? 'border-[#FFC800] bg-[#FFC800]/10 text-[#FFC800]' : 'border-[#333] text-gray-300 hover:border-[#555]'
+                }`}
+              >
+                <span className="font-bold">{option.xp} XP</span>
+                <span className="text-[10px]">{t(`goal.${option.id}`)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default StreakPanel;
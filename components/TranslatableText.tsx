@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { WordLookupResult } from '../types';
+import { Translate } from '../utils/i18n';
+import { Lexicon, splitTargetSpans } from '../utils/targetSpans';
+
+interface TranslatableTextProps {
+  text: string;
+  lexicon: Lexicon;
+  isImmersion: boolean;
+  onLookup: (term: string) => Promise<WordLookupResult>;
+  onAddToDeck?: (result: WordLookupResult) => void; // Missing where words can't be filed (reviews, placement)
+  isInDeck: (term: string) => boolean;
+  t: Translate;
+}
+
+type LookupState =
+  | { status: 'loading'; index: number }
+  | { status: 'done'; index: number; result: WordLookupResult }
+  | { status: 'failed'; index: number };
+
+// A coach message whose target-language words can be tapped for a translation popover
+const TranslatableText: React.FC<TranslatableTextProps> = ({ text, lexicon, isImmersion, onLookup, onAddToDeck, isInDeck, t }) => {
+  const segments = useMemo(() => splitTargetSpans(text, lexicon, isImmersion), [text, lexicon, isImmersion]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [lookup, setLookup] = useState<LookupState>({ status: 'loading', index: -1 });
+
+  const open = (index: number, term: string) => {
+    if (openIndex === index) {
+      setOpenIndex(null);
+      return;
+    }
+    setOpenIndex(index);
+    setLookup({ status: 'loading', index });
+    // A slow answer for a word the learner has since moved on from is dropped
+    const settle = (next: LookupState) => setLookup((current: LookupState) => current.index === index ? next : current);
+    onLookup(term)
+      .then(result => settle({ status: 'done', index, result }))
+      .catch(e => {
+        console.error("Word lookup failed", e);
+        settle({ status: 'failed', index });
+      });
+  };
+
+  return (
+    <>
+      {segments.map((segment, i) => {
+        if (!segment.isTarget) return <span key={i}>{segment.text}</span>;
+        return (
+          <span key={i} className="relative">
+            <button
+              type="button"
+              onClick={() => open(i, segment.text)}
+              title={t('lookup.tapHint')}
+              className={`underline decoration-dotted decoration-indigo-400 underline-offset-4 rounded hover:bg-indigo-50 ${openIndex === i ? 'bg-indigo-100' : ''}`}
+            >
+              {segment.text}
+            </button>
+            {openIndex === i && (
+              <span
+                dir="auto"
+                className="absolute z-20 top-full start-0 mt-1 w-56 flex flex-col gap-1 bg-white text-slate-800 border border-slate-200 rounded-xl shadow-lg p-3 text-start"
+              >
+                <span className="flex items-start justify-between gap-2">
+                  <span className="font-bold">{segment.text}</span>
+                  <button type="button" onClick={() => setOpenIndex(null)} aria-label={t('lookup.close')} className="text-slate-400 hover:text-slate-600 leading-none">×</button>
+                </span>
+                {lookup.status === 'loading' && <span className="text-xs text-slate-400 animate-pulse">{t('lookup.loading')}</span>}
+                {lookup.status === 'failed' && <span className="text-xs text-red-500">{t('lookup.failed')}</span>}
+                {lookup.status === 'done' && (
+                  <>
+                    {lookup.result.translation
+                      ? <span className="text-sm">{lookup.result.translation}</span>
+                      : <span className="text-xs text-slate-400">{t('lookup.offline')}</span>}
+                    {(lookup.result.partOfSpeech || lookup.result.pronunciation) && (
+                      <span className="text-xs text-slate-500 flex flex-wrap gap-x-2">
+                        {lookup.result.partOfSpeech && <i>{lookup.result.partOfSpeech}</i>}
+                        {lookup.result.pronunciation && <span dir="ltr">🔊 {lookup.result.pronunciation}</span>}
+                      </span>
+                    )}
+                    {onAddToDeck && lookup.result.translation && (
+                      isInDeck(segment.text)
+                        ? <span className="text-xs font-bold text-green-600 mt-1">✓ {t('lookup.inDeck')}</span>
+                        : (
+                          <button
+                            type="button"
+                            onClick={() => onAddToDeck(lookup.result)}
+                            className="mt-1 bg-purple-100 text-purple-700 hover:bg-purple-200 rounded-lg py-1 text-xs font-bold"
+                          >
+                            🃏 {t('lookup.addToDeck')}
+                          </button>
+                        )
+                    )}
+                  </>
+                )}
+              </span>
+            )}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+export default TranslatableText;
@@ -1,6 +1,17 @@
-import { Character, LanguageOption, Level, StepType, UserProfile, Subject, Step } from './types';
+import { Character, CoachOverrides, TargetLanguage, TargetLanguageCode, LanguageOption, Level, StepType, UserProfile, Subject, Step, SessionPlan, VocabularyCard } from './types';
+import { loadCurriculumPack } from './utils/curriculumLoader';
+import { Translate } from './utils/i18n';
+import { composeLessonPrompt, getLessonPromptVersion } from './utils/promptTemplates';
+import ptPTPack from './curriculum/pt-PT.json';
+import ptBRPack from './curriculum/pt-BR.json';
+import esESPack from './curriculum/es-ES.json';
 
 export const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
+export const TTS_MODEL_NAME = 'gemini-2.5-flash-preview-tts';
+export const LOOKUP_MODEL_NAME = 'gemini-2.5-flash';
+
+// Avatars learners can pick for their profile on a shared device
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐙', '🦉', '🐢', '🦄', '🐝', '🐳', '🦁', '🐸'];
 
 // 1. CHARACTERS MAPPED TO ROLES
 export const CHARACTERS: Record<string, Character> = {
@@ -8,6 +19,9 @@ export const CHARACTERS: Record<string, Character> = {
     id: 'sofia',
     name: 'Sofia',
     description: 'Soft fluffy female voice 🌸. Best for Vocabulary.',
+    persona: 'Warm, gentle and playful. Celebrates every small win, repeats new words slowly and links them to cute everyday images.',
+    sampleLine: 'Olá! Eu sou a Sofia. Vamos aprender palavras novas juntos?',
+    targetLanguage: 'pt-PT',
     voiceName: 'Puck', 
     avatarColor: 'from-pink-300 to-rose-400',
     style: 'cute'
@@ -16,6 +30,9 @@ export const CHARACTERS: Record<string, Character> = {
     id: 'ines',
     name: 'Inês',
     description: 'Clear, calm teacher. Best for Grammar & Reading.',
+    persona: 'Clear, calm and methodical. Explains one rule at a time with short examples and checks understanding before moving on.',
+    sampleLine: 'Bom dia, eu sou a Inês. Hoje vamos ver a gramática com calma.',
+    targetLanguage: 'pt-PT',
     voiceName: 'Kore', 
     avatarColor: 'from-blue-400 to-indigo-500',
     style: 'calm'
@@ -24,6 +41,9 @@ export const CHARACTERS: Record<string, Character> = {
     id: 'miguel',
     name: 'Miguel',
     description: 'Friendly male. Best for Speaking & Listening.',
+    persona: 'Friendly, relaxed and chatty. Keeps the conversation flowing like a real café chat and gently models the right phrasing.',
+    sampleLine: 'Olá, eu sou o Miguel! Então, vamos conversar um bocadinho?',
+    targetLanguage: 'pt-PT',
     voiceName: 'Fenrir',
     avatarColor: 'from-green-500 to-teal-600',
     style: 'energetic'
@@ -32,22 +52,102 @@ export const CHARACTERS: Record<string, Character> = {
     id: 'rui',
     name: 'Rui',
     description: 'Energetic, gamified. Best for Challenges.',
+    persona: 'Energetic and competitive, like a quiz show host. Keeps the pace high, counts points out loud and pushes for full sentences.',
+    sampleLine: 'Eu sou o Rui! Pronto para o desafio? Vamos a isso!',
+    targetLanguage: 'pt-PT',
     voiceName: 'Zephyr',
     avatarColor: 'from-orange-500 to-red-600',
     style: 'serious'
-  }
-};
-
-// Helper to get character by step type
-export const getCharacterForStep = (type: StepType): Character => {
-  switch (type) {
-    case 'vocabulary': return CHARACTERS.sofia;
-    case 'grammar': 
-    case 'reading': return CHARACTERS.ines;
-    case 'speaking':
-    case 'listening': return CHARACTERS.miguel;
-    case 'challenge': return CHARACTERS.rui;
-    default: return CHARACTERS.miguel;
+  },
+  // Brazilian Portuguese
+  ana: {
+    id: 'ana',
+    name: 'Ana',
+    description: 'Sunny and encouraging. Best for Vocabulary.',
+    persona: 'Sunny, upbeat and encouraging. Introduces words through everyday Brazilian situations and praises every attempt.',
+    sampleLine: 'Oi! Eu sou a Ana. Vamos aprender palavras novas juntos?',
+    targetLanguage: 'pt-BR',
+    voiceName: 'Aoede',
+    avatarColor: 'from-pink-300 to-rose-400',
+    style: 'cute'
+  },
+  beatriz: {
+    id: 'beatriz',
+    name: 'Beatriz',
+    description: 'Patient and precise. Best for Grammar & Reading.',
+    persona: 'Patient and precise. Breaks every rule into small steps, contrasts it with English and checks understanding often.',
+    sampleLine: 'Bom dia, eu sou a Beatriz. Hoje a gente vai estudar gramática com calma.',
+    targetLanguage: 'pt-BR',
+    voiceName: 'Leda',
+    avatarColor: 'from-blue-400 to-indigo-500',
+    style: 'calm'
+  },
+  lucas: {
+    id: 'lucas',
+    name: 'Lucas',
+    description: 'Laid-back and chatty. Best for Speaking & Listening.',
+    persona: 'Laid-back and chatty, like a friend at a boteco. Keeps the conversation natural and models relaxed spoken Brazilian Portuguese.',
+    sampleLine: 'E aí, tudo bem? Eu sou o Lucas. Bora bater um papo?',
+    targetLanguage: 'pt-BR',
+    voiceName: 'Puck',
+    avatarColor: 'from-green-500 to-teal-600',
+    style: 'energetic'
+  },
+  thiago: {
+    id: 'thiago',
+    name: 'Thiago',
+    description: 'Fast-paced quiz host. Best for Challenges.',
+    persona: 'Fast-paced and playful, like a TV quiz host. Keeps score out loud and cheers every right answer.',
+    sampleLine: 'Eu sou o Thiago! Preparado para o desafio? Então vamos lá!',
+    targetLanguage: 'pt-BR',
+    voiceName: 'Orus',
+    avatarColor: 'from-orange-500 to-red-600',
+    style: 'serious'
+  },
+  // Spanish (Spain)
+  lucia: {
+    id: 'lucia',
+    name: 'Lucía',
+    description: 'Bright and playful. Best for Vocabulary.',
+    persona: 'Bright and playful. Links new words to life in Spain, from tapas bars to the metro, and repeats them clearly.',
+    sampleLine: '¡Hola! Soy Lucía. ¿Aprendemos palabras nuevas juntos?',
+    targetLanguage: 'es-ES',
+    voiceName: 'Aoede',
+    avatarColor: 'from-pink-300 to-rose-400',
+    style: 'cute'
+  },
+  carmen: {
+    id: 'carmen',
+    name: 'Carmen',
+    description: 'Calm and structured. Best for Grammar & Reading.',
+    persona: 'Calm and structured. Explains one rule at a time with clear examples and recaps before moving on.',
+    sampleLine: 'Buenos días, soy Carmen. Hoy vamos a ver la gramática con calma.',
+    targetLanguage: 'es-ES',
+    voiceName: 'Kore',
+    avatarColor: 'from-blue-400 to-indigo-500',
+    style: 'calm'
+  },
+  javier: {
+    id: 'javier',
+    name: 'Javier',
+    description: 'Friendly and relaxed. Best for Speaking & Listening.',
+    persona: 'Friendly and relaxed, like a chat over coffee in Madrid. Keeps the conversation going and gently recasts mistakes.',
+    sampleLine: '¡Hola! Soy Javier. ¿Charlamos un rato?',
+    targetLanguage: 'es-ES',
+    voiceName: 'Charon',
+    avatarColor: 'from-green-500 to-teal-600',
+    style: 'energetic'
+  },
+  pablo: {
+    id: 'pablo',
+    name: 'Pablo',
+    description: 'High-energy challenger. Best for Challenges.',
+    persona: 'High-energy and competitive, like a game show host. Keeps the pace up and pushes for complete sentences.',
+    sampleLine: '¡Soy Pablo! ¿Preparado para el reto? ¡Vamos allá!',
+    targetLanguage: 'es-ES',
+    voiceName: 'Fenrir',
+    avatarColor: 'from-orange-500 to-red-600',
+    style: 'serious'
   }
 };
 
@@ -59,84 +159,387 @@ export const LANGUAGES: LanguageOption[] = [
   { code: 'ar-SA', name: 'Arabic', flag: '🇸🇦' },
 ];
 
-// 2. CURRICULUM STRUCTURE
-const STANDARD_STEPS: Step[] = [
-  { id: 'step-1', order: 1, type: 'vocabulary', title: 'Vocabulário' },
-  { id: 'step-2', order: 2, type: 'listening', title: 'Escuta' },
-  { id: 'step-3', order: 3, type: 'reading', title: 'Leitura' },
-  { id: 'step-4', order: 4, type: 'grammar', title: 'Gramática' },
-  { id: 'step-5', order: 5, type: 'speaking', title: 'Fala' },
-  { id: 'step-6', order: 6, type: 'challenge', title: 'Mini-Teste' },
-];
+// 2. TARGET LANGUAGES AND CURRICULUM
+// Each language has its own pack in curriculum/<code>.json, its own coaches and the
+// prompt fragments that keep the coach on that variety.
+export const DEFAULT_TARGET_LANGUAGE: TargetLanguageCode = 'pt-PT';
 
-export const CURRICULUM: Level[] = [
-  {
-    id: 'A1',
-    title: 'A1 – Beginner',
-    subjects: [
-      { id: 'a1-intro', title: 'Apresentações Pessoais', description: 'Introduce yourself', icon: '👋', color: 'bg-green-500', steps: STANDARD_STEPS },
-      { id: 'a1-greetings', title: 'Cumprimentos Diários', description: 'Hello, Goodbye, How are you', icon: '☀️', color: 'bg-yellow-500', steps: STANDARD_STEPS },
-      { id: 'a1-numbers', title: 'Números e Tempo', description: 'Counting and telling time', icon: '⏰', color: 'bg-blue-500', steps: STANDARD_STEPS },
-      { id: 'a1-family', title: 'Família e Amigos', description: 'Talking about family', icon: '👨‍👩‍👧', color: 'bg-purple-500', steps: STANDARD_STEPS },
-      { id: 'a1-food', title: 'Comida e Bebidas', description: 'Ordering food', icon: '🍔', color: 'bg-red-500', steps: STANDARD_STEPS },
-      { id: 'a1-routine', title: 'Rotina Diária', description: 'Daily habits', icon: '📅', color: 'bg-indigo-500', steps: STANDARD_STEPS },
-      { id: 'a1-places', title: 'Direções e Lugares', description: 'Where is the library?', icon: '🗺️', color: 'bg-teal-500', steps: STANDARD_STEPS },
-      { id: 'a1-shopping', title: 'Compras Básicas', description: 'Buying things', icon: '🛍️', color: 'bg-pink-500', steps: STANDARD_STEPS },
-    ]
+export const TARGET_LANGUAGES: Record<TargetLanguageCode, TargetLanguage> = {
+  'pt-PT': {
+    code: 'pt-PT',
+    name: 'European Portuguese',
+    languageName: 'Portuguese',
+    region: 'Portugal',
+    flag: '🇵🇹',
+    curriculum: loadCurriculumPack(ptPTPack),
+    coaches: { vocabulary: 'sofia', grammar: 'ines', reading: 'ines', speaking: 'miguel', listening: 'miguel', challenge: 'rui' },
+    reviewCoach: 'sofia',
+    placementCoach: 'miguel',
+    testOutCoach: 'rui',
+    dialectNotes: "Use European Portuguese only: Lisbon pronunciation with reduced unstressed vowels, 'tu' for informal you, 'estou a fazer' rather than the gerund, enclisis (chamo-me), and Portuguese vocabulary (autocarro, pequeno-almoço, telemóvel). Never use Brazilian forms.",
+    phrases: { hello: 'Olá', goodMorning: 'Bom dia' },
   },
-  {
-    id: 'A2',
-    title: 'A2 – Elementary',
-    subjects: [
-      { id: 'a2-work', title: 'Trabalho', description: 'Professions', icon: '💼', color: 'bg-slate-500', steps: STANDARD_STEPS },
-       // ... simplified for demo
-    ]
+  'pt-BR': {
+    code: 'pt-BR',
+    name: 'Brazilian Portuguese',
+    languageName: 'Portuguese',
+    region: 'Brazil',
+    flag: '🇧🇷',
+    curriculum: loadCurriculumPack(ptBRPack),
+    coaches: { vocabulary: 'ana', grammar: 'beatriz', reading: 'beatriz', speaking: 'lucas', listening: 'lucas', challenge: 'thiago' },
+    reviewCoach: 'ana',
+    placementCoach: 'lucas',
+    testOutCoach: 'thiago',
+    dialectNotes: "Use Brazilian Portuguese only: São Paulo / Rio pronunciation, 'você' for you, the gerund (estou fazendo), pronouns before the verb (me chamo), 'a gente' in casual speech, and Brazilian vocabulary (ônibus, café da manhã, celular). Never use European forms.",
+    phrases: { hello: 'Oi', goodMorning: 'Bom dia' },
   },
-  { id: 'B1', title: 'B1 – Intermediate', subjects: [] },
-  { id: 'B2', title: 'B2 – Upper-Intermediate', subjects: [] },
-  { id: 'C1', title: 'C1 – Advanced', subjects: [] },
-];
+  'es-ES': {
+    code: 'es-ES',
+    name: 'Spanish',
+    languageName: 'Spanish',
+    region: 'Spain',
+    flag: '🇪🇸',
+    curriculum: loadCurriculumPack(esESPack),
+    coaches: { vocabulary: 'lucia', grammar: 'carmen', reading: 'carmen', speaking: 'javier', listening: 'javier', challenge: 'pablo' },
+    reviewCoach: 'lucia',
+    placementCoach: 'javier',
+    testOutCoach: 'pablo',
+    dialectNotes: "Use Castilian Spanish from Spain only: distinción (z and soft c as 'th'), 'vosotros' for plural informal you, the pretérito perfecto for today's events (hoy he comido), and Spanish vocabulary (coche, ordenador, zumo, móvil). Never use Latin American forms.",
+    phrases: { hello: 'Hola', goodMorning: 'Buenos días' },
+  },
+};
+
+export const getTargetLanguage = (code: TargetLanguageCode): TargetLanguage =>
+  TARGET_LANGUAGES[code] ?? TARGET_LANGUAGES[DEFAULT_TARGET_LANGUAGE];
+
+export const getCurriculum = (code: TargetLanguageCode): Level[] => getTargetLanguage(code).curriculum.levels;
+
+// Coaches who teach the given language
+export const getCharactersForLanguage = (code: TargetLanguageCode): Character[] =>
+  Object.values(CHARACTERS).filter(c => c.targetLanguage === code);
+
+// Helper to get character by step type, honouring the learner's own choice of coach
+export const getCharacterForStep = (
+  type: StepType,
+  language: TargetLanguageCode = DEFAULT_TARGET_LANGUAGE,
+  overrides: CoachOverrides = {}
+): Character => {
+  const override = CHARACTERS[overrides[type] ?? ''];
+  if (override?.targetLanguage === language) return override;
+  return CHARACTERS[getTargetLanguage(language).coaches[type]];
+};
 
 export const AUDIO_SAMPLE_RATE_INPUT = 16000;
 export const AUDIO_SAMPLE_RATE_OUTPUT = 24000;
+// 40 ms frames at 16 kHz sent to the transport
+export const AUDIO_INPUT_FRAME_SIZE = 640;
+
+// Sent by the app as the first client-content turn so the coach starts the lesson deterministically
+export const buildKickoffMessage = (level: Level, subject: Subject, step: Step) =>
+  `[LESSON START] Level ${level.id} | Subject: ${subject.title} | Step: ${step.title} (${step.type}). Please begin the lesson now.`;
+
+// Curriculum-pack content for the subject, so the coach teaches what the pack specifies
+const buildLessonContent = (subject: Subject) => {
+  const sections: string[] = [];
+  if (subject.objectives?.length) {
+    sections.push(`Learning objectives:\n${subject.objectives.map(o => `- ${o}`).join('\n')}`);
+  }
+  if (subject.vocabulary?.length) {
+    sections.push(`Target vocabulary (term = English meaning; translate the meaning into the learner's language):\n${subject.vocabulary.map(v => `- ${v.term} = ${v.gloss}`).join('\n')}`);
+  }
+  if (subject.grammarPoints?.length) {
+    sections.push(`Grammar points:\n${subject.grammarPoints.map(g => `- ${g}`).join('\n')}`);
+  }
+  return sections.length ? `\nLESSON CONTENT:\n${sections.join('\n\n')}\n` : '';
+};
+
+// What the coach must see the learner do before a step counts as passed.
+// Steps in the curriculum pack can override these with their own objectives.
+export const DEFAULT_STEP_OBJECTIVES: Record<StepType, string[]> = {
+  vocabulary: [
+    'Repeats the new words with recognisable pronunciation',
+    'Recalls the meaning of the new words when asked',
+    'Uses at least one new word in a short phrase',
+  ],
+  listening: [
+    'Repeats a spoken sentence in the target language accurately',
+    'Shows understanding of what was heard',
+    'Answers a simple question about what was heard',
+  ],
+  grammar: [
+    'Explains or recognises the grammar rule',
+    'Applies the rule correctly in a guided example',
+    'Produces an original sentence that uses the rule',
+  ],
+  speaking: [
+    'Responds in the target language during the roleplay',
+    'Keeps the conversation going for several exchanges',
+    'Uses the subject vocabulary naturally',
+  ],
+  reading: [
+    'Reads a short text in the target language aloud',
+    'Answers a comprehension question about the text',
+    'Explains the meaning of a key phrase',
+  ],
+  challenge: [
+    'Answers most quick-fire questions correctly',
+    'Uses vocabulary from the subject without help',
+    'Forms complete sentences under time pressure',
+  ],
+};
+
+export const getStepObjectives = (step: Step): string[] =>
+  step.objectives?.length ? step.objectives : DEFAULT_STEP_OBJECTIVES[step.type];
 
 // 3. MASTER PROMPT
-export const generateSystemInstruction = (profile: UserProfile, level: Level, subject: Subject, step: Step) => {
-  const character = getCharacterForStep(step.type);
-  const isImmersion = profile.mode === 'immersion';
+// Composed from the versioned templates in utils/promptTemplates.ts
+// memory: summarizeLearnerMemory output, so the coach picks up where earlier sessions left off
+export const generateSystemInstruction = (profile: UserProfile, level: Level, subject: Subject, step: Step, memory = '') => {
+  const language = getTargetLanguage(profile.targetLanguage);
+  return composeLessonPrompt({
+    profile,
+    language,
+    character: getCharacterForStep(step.type, language.code, profile.coachOverrides),
+    level,
+    subject,
+    step,
+    objectives: getStepObjectives(step),
+    lessonContent: buildLessonContent(subject),
+    memory,
+  });
+};
+
+// 4. REVIEW SESSIONS
+// Daily spaced-repetition review of due deck cards, run by the vocabulary coach
+export const getReviewCharacter = (code: TargetLanguageCode) => CHARACTERS[getTargetLanguage(code).reviewCoach];
 
+export const buildReviewKickoffMessage = (cards: VocabularyCard[]) =>
+  `[REVIEW START] ${cards.length} card${cards.length === 1 ? '' : 's'} due. Please begin the review now.`;
+
+// Bump when the review prompt below changes; saved with each session as review@<version>
+const REVIEW_PROMPT_VERSION = 1;
+
+export const generateReviewInstruction = (profile: UserProfile, cards: VocabularyCard[]) => {
+  const language = getTargetLanguage(profile.targetLanguage);
+  const character = getReviewCharacter(language.code);
   return `
-🧠 SYSTEM PROMPT — LINGUOFLOW COACH (${character.name})
+🧠 SYSTEM PROMPT — LINGUOFLOW REVIEW (${character.name})
 
 ROLE:
-You are ${character.name}, a friendly AI language tutor for European Portuguese (Portugal).
-Your personality is: ${character.description}.
+You are ${character.name}, a friendly AI language tutor for ${language.name} (${language.region}), running a quick vocabulary review.
+Your personality is: ${character.persona}
 User's Native Language: ${profile.nativeLanguage.name} (${profile.nativeLanguage.code}).
+VARIETY: ${language.dialectNotes}
+Speak ${profile.nativeLanguage.name} for instructions and feedback${profile.mode === 'immersion' ? `, keeping it minimal: the learner chose immersion, so prefer simple ${language.languageName}` : ''}. Use ${language.languageName} for the words being reviewed.
+
+INPUT:
+${profile.inputMode === 'text'
+  ? `The learner is TYPING (no microphone). Ask them to type their answers, and check spelling and accents.`
+  : `The learner answers by voice, and may also type.`}
+
+CARDS DUE (index. ${language.languageName} = meaning | example):
+${cards.map((card, i) => `${i}. ${card.term} = ${card.gloss}${card.example ? ` | ${card.example}` : ''}`).join('\n')}
+
+HOW TO RUN THE REVIEW:
+- Go through the cards in order, one at a time. Vary the prompt: give the meaning and ask for the ${language.languageName}, or say the ${language.languageName} and ask what it means, or ask them to complete the example sentence.
+- Give the learner one chance to answer, then one hint if they are stuck. Then give the answer and move on.
+- After each card, call grade_card with its index and a recall quality from 0 to 5. Be honest: hesitation or a hint means 3 or 4, not 5.
+- When every card is graded, call finish_step with passed=true, briefly praise the learner and tell them they can finish the review.
+- Never mention the tools, card numbers or grades to the learner.
+
+STARTING THE SESSION:
+The app opens the session with a "[REVIEW START]" message. It is not spoken by the learner; do not mention it.
+Greet the learner in one short sentence and go straight to the first card.
+`;
+};
 
-⚠️ STRICT LANGUAGE PROTOCOL:
-1. **EXPLANATIONS IN NATIVE LANGUAGE**: Unless 'Immersion' mode is ON, you MUST use ${profile.nativeLanguage.name} for ALL greetings, instructions, praise, explanations, and small talk.
-2. **TARGET LANGUAGE (PORTUGUESE)**: Use Portuguese ONLY for the specific words or phrases the user needs to learn or repeat.
-3. **NO MIXING**: Do not mix languages randomly. Format: [Explanation in ${profile.nativeLanguage.name}] -> [Portuguese Phrase].
+// 5. PLACEMENT TEST
+// Optional onboarding conversation that estimates the learner's CEFR level
+export const getPlacementCharacter = (code: TargetLanguageCode) => CHARACTERS[getTargetLanguage(code).placementCoach];
 
-Example (If User is English):
-✅ "Hello! Today we will learn to say 'Good morning'. Listen: 'Bom dia'."
-❌ "Olá! Today we learn Bom dia." (Bad mixing)
+export const PLACEMENT_KICKOFF_MESSAGE = '[PLACEMENT START] Please begin the placement conversation now.';
+
+// Bump when the placement prompt below changes
+const PLACEMENT_PROMPT_VERSION = 1;
+
+export const generatePlacementInstruction = (profile: UserProfile) => {
+  const language = getTargetLanguage(profile.targetLanguage);
+  const character = getPlacementCharacter(language.code);
+  return `
+🧠 SYSTEM PROMPT — LINGUOFLOW PLACEMENT (${character.name})
 
-CONTEXT:
-Level: ${level.id} | Subject: ${subject.title} | Step: ${step.title} (${step.type})
+ROLE:
+You are ${character.name}, a friendly examiner for ${language.name} (${language.region}), running a short spoken placement test.
+Your personality is: ${character.persona}
+The learner is called ${profile.name || 'the learner'}. Native language: ${profile.nativeLanguage.name} (${profile.nativeLanguage.code}).
+VARIETY: ${language.dialectNotes}
 
-STEP INSTRUCTIONS:
-- **Vocabulary**: Teach 3-5 new words. Say the word in Portuguese, then explain in ${profile.nativeLanguage.name}.
-- **Listening**: Speak a clear Portuguese sentence. Ask in ${profile.nativeLanguage.name} for the user to repeat.
-- **Grammar**: Explain the rule in ${profile.nativeLanguage.name}. Give examples in Portuguese.
-- **Speaking**: Roleplay. You speak Portuguese, but help the user in ${profile.nativeLanguage.name} if they get stuck.
+HOW TO RUN THE TEST (about 5 minutes, 8-12 questions):
+1. Explain in one sentence in ${profile.nativeLanguage.name} that you will chat in ${language.languageName} to find the right starting level, and that "I don't know" is a fine answer.
+2. Then speak only ${language.languageName}. Start at A1 (name, where they are from, simple likes) and escalate:
+   - A2: daily routine, shopping, past weekend.
+   - B1: describing experiences, plans, giving simple reasons and opinions.
+   - B2: arguing a point, hypotheticals (subjunctive, conditional), abstract topics.
+   - C1: nuanced opinions, idiomatic ${language.name}, complex structures.
+3. Move up a level after two confident, mostly correct answers. Stop escalating after two answers at a level that break down or switch to ${profile.nativeLanguage.name}.
+4. Do not correct or teach during the test; just keep the conversation natural and encouraging.
+5. When you are confident, call report_placement with the highest level the learner handled comfortably, then tell them (in ${profile.nativeLanguage.name}) which level you recommend and that they can continue.
+6. If the learner understands nothing at all, call report_placement with A1 right away and reassure them.
+Never mention the tool to the learner.
 
 STARTING THE SESSION:
-1. Wait for the silent trigger.
-2. Immediately say (in ${profile.nativeLanguage.name}): "Welcome! Let's start the ${subject.title} lesson."
-3. Then introduce the first Portuguese concept.
+The app opens the session with a "[PLACEMENT START]" message. It is not spoken by the learner; do not mention it.
+`;
+};
+
+// 6. TEST-OUT CHALLENGES
+// Lets a learner skip a locked subject or level by proving they already know it
+export const getTestOutCharacter = (code: TargetLanguageCode) => CHARACTERS[getTargetLanguage(code).testOutCoach];
+
+// What a test-out has to show: the subject's own objectives, or one per subject for a level
+export const getTestOutObjectives = (level: Level, subject?: Subject): string[] => {
+  if (!subject) return level.subjects.map(s => `Handles "${s.title}" confidently`);
+  if (subject.objectives?.length) return subject.objectives;
+  return [
+    `Understands questions about ${subject.title}`,
+    `Answers about ${subject.title} in the target language`,
+    `Uses the ${subject.title} vocabulary accurately`,
+  ];
+};
+
+export const buildTestOutKickoffMessage = (level: Level, subject?: Subject) =>
+  `[TEST-OUT START] Level ${level.id}${subject ? ` | Subject: ${subject.title}` : ' (whole level)'}. Please begin the challenge now.`;
+
+// Bump when the test-out prompt below changes
+const TEST_OUT_PROMPT_VERSION = 1;
+
+export const generateTestOutInstruction = (profile: UserProfile, level: Level, subject?: Subject) => {
+  const subjects = subject ? [subject] : level.subjects;
+  const language = getTargetLanguage(profile.targetLanguage);
+  const character = getTestOutCharacter(language.code);
+  return `
+🧠 SYSTEM PROMPT — LINGUOFLOW TEST-OUT CHALLENGE (${character.name})
+
+ROLE:
+You are ${character.name}, an energetic examiner for ${language.name} (${language.region}).
+Your personality is: ${character.persona}
+User's Native Language: ${profile.nativeLanguage.name} (${profile.nativeLanguage.code}).
+VARIETY: ${language.dialectNotes}
+The learner wants to skip ${subject ? `the subject "${subject.title}"` : `all of level ${level.id} (${level.title})`} by proving they already know it.
+
+INPUT:
+${profile.inputMode === 'text'
+  ? `The learner is TYPING (no microphone). Ask them to type answers.`
+  : `The learner may speak or type.`}
+
+MATERIAL TO TEST:
+${subjects.map(s => `${s.title}: ${s.description}${buildLessonContent(s)}`).join('\n')}
 
-GOAL:
-Help the user complete the "${step.title}" step confidently. Be patient and encouraging.
+HOW TO RUN THE CHALLENGE:
+- Give a one-sentence explanation in ${profile.nativeLanguage.name}, then ask quick-fire questions and mini roleplays in ${language.languageName}.
+- Do not teach or give hints; this is a test. Briefly say whether each answer was right and move on.
+- Keep it short: about ${subject ? '6-8' : '10-14'} questions.
+
+ASSESSMENT (use your tools):
+Objectives:
+${getTestOutObjectives(level, subject).map((o, i) => `${i}. ${o}`).join('\n')}
+- Call mark_objective_met only when the learner demonstrates the objective without help.
+- Call report_score (0-100) at the end.
+- If every objective is met, call finish_step with passed=true and congratulate the learner.
+- Otherwise call finish_step with passed=false and encourage them to take the lessons instead.
+- Never mention the tools or objective numbers to the learner.
+
+STARTING THE SESSION:
+The app opens the session with a "[TEST-OUT START]" message. It is not spoken by the learner; do not mention it.
 `;
 };
+
+export const getCharacterForPlan = (plan: SessionPlan, profile: UserProfile): Character => {
+  switch (plan.kind) {
+    case 'review': return getReviewCharacter(profile.targetLanguage);
+    case 'placement': return getPlacementCharacter(profile.targetLanguage);
+    case 'testOut': return getTestOutCharacter(profile.targetLanguage);
+    default: return getCharacterForStep(plan.step.type, profile.targetLanguage, profile.coachOverrides);
+  }
+};
+
+// Placement has no checklist; it finishes when the coach reports a level
+export const getPlanObjectives = (plan: SessionPlan): string[] => {
+  switch (plan.kind) {
+    case 'review': return plan.cards.map(card => `Recall "${card.term}"`);
+    case 'placement': return [];
+    case 'testOut': return getTestOutObjectives(plan.level, plan.subject);
+    default: return getStepObjectives(plan.step);
+  }
+};
+
+export const generateSessionInstruction = (profile: UserProfile, plan: SessionPlan, memory = '') => {
+  switch (plan.kind) {
+    case 'review': return generateReviewInstruction(profile, plan.cards);
+    case 'placement': return generatePlacementInstruction(profile);
+    case 'testOut': return generateTestOutInstruction(profile, plan.level, plan.subject);
+    default: return generateSystemInstruction(profile, plan.level, plan.subject, plan.step, memory);
+  }
+};
+
+// Which prompt templates, at which versions, a session runs with. Kept with the session history.
+export const getSessionPromptVersion = (profile: UserProfile, plan: SessionPlan): string => {
+  switch (plan.kind) {
+    case 'review': return `review@${REVIEW_PROMPT_VERSION}`;
+    case 'placement': return `placement@${PLACEMENT_PROMPT_VERSION}`;
+    case 'testOut': return `test-out@${TEST_OUT_PROMPT_VERSION}`;
+    default: return getLessonPromptVersion(profile.mode, plan.step.type);
+  }
+};
+
+export const buildSessionKickoffMessage = (plan: SessionPlan) => {
+  switch (plan.kind) {
+    case 'review': return buildReviewKickoffMessage(plan.cards);
+    case 'placement': return PLACEMENT_KICKOFF_MESSAGE;
+    case 'testOut': return buildTestOutKickoffMessage(plan.level, plan.subject);
+    default: return buildKickoffMessage(plan.level, plan.subject, plan.step);
+  }
+};
+
+// Labels LiveSession shows for each kind of session, in the learner's UI language.
+// slug and heading name the downloaded recording and transcript, so they stay in English.
+export const describePlan = (plan: SessionPlan, t: Translate) => {
+  switch (plan.kind) {
+    case 'review':
+      return {
+        title: t('plan.review.title'),
+        badge: t('plan.review.badge', { count: plan.cards.length }),
+        progressLabel: t('plan.review.progress'),
+        completeLabel: t('plan.review.complete'),
+        slug: 'review',
+        heading: `LinguoFlow vocabulary review (${plan.cards.length} cards)`,
+      };
+    case 'placement':
+      return {
+        title: t('plan.placement.title'),
+        badge: t('plan.placement.badge'),
+        progressLabel: t('plan.placement.progress'),
+        completeLabel: t('plan.placement.complete'),
+        slug: 'placement',
+        heading: 'LinguoFlow placement test',
+      };
+    case 'testOut':
+      return {
+        title: t('plan.testOut.title', { title: plan.subject?.title ?? plan.level.title }),
+        badge: plan.subject ? plan.level.id : t('plan.testOut.levelBadge', { level: plan.level.id }),
+        progressLabel: t('plan.objectives'),
+        completeLabel: t('plan.testOut.complete'),
+        slug: `test-out-${plan.subject?.id ?? plan.level.id}`,
+        heading: `LinguoFlow test-out: ${plan.subject?.title ?? `level ${plan.level.id}`}`,
+      };
+    default:
+      return {
+        title: plan.subject.title,
+        badge: plan.step.title,
+        progressLabel: t('plan.objectives'),
+        completeLabel: t('plan.lesson.complete'),
+        slug: `${plan.subject.id}-${plan.step.id}`,
+        heading: `LinguoFlow lesson: ${plan.subject.title} / ${plan.step.title} (${plan.level.id})`,
+      };
+  }
+};
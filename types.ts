@@ -2,11 +2,37 @@ export interface Character {
   id: string;
   name: string;
   description: string;
+  persona: string; // Personality and teaching style, written into the system prompt
+  sampleLine: string; // Spoken in the coach picker's voice preview
+  targetLanguage: TargetLanguageCode; // The language this coach teaches
   voiceName: string; 
   avatarColor: string;
   style: 'cute' | 'serious' | 'energetic' | 'calm';
 }
 
+// Character IDs chosen by the learner for some step types; the rest keep the default coach
+export type CoachOverrides = Partial<Record<StepType, string>>;
+
+// Languages the app teaches. Each has its own curriculum pack, coaches and prompt
+// fragments (see TARGET_LANGUAGES in constants.ts) and its own progress per learner.
+export type TargetLanguageCode = 'pt-PT' | 'pt-BR' | 'es-ES';
+export const TARGET_LANGUAGE_CODES: TargetLanguageCode[] = ['pt-PT', 'pt-BR', 'es-ES'];
+
+export interface TargetLanguage {
+  code: TargetLanguageCode;
+  name: string; // The variety, e.g. "European Portuguese"
+  languageName: string; // What the coach calls it when talking to the learner, e.g. "Portuguese"
+  region: string;
+  flag: string;
+  curriculum: CurriculumPack;
+  coaches: Record<StepType, string>; // Default character ID per step type
+  reviewCoach: string;
+  placementCoach: string;
+  testOutCoach: string;
+  dialectNotes: string; // Keeps the coach on this variety's pronunciation, grammar and vocabulary
+  phrases: { hello: string; goodMorning: string }; // Used in the prompt's mixing example
+}
+
 export interface LanguageOption {
   code: string;
   name: string;
@@ -18,24 +44,63 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isPartial?: boolean;
+  at?: number; // epoch ms when the message started
+  isTyped?: boolean; // Sent from the text box rather than spoken
+  pronunciation?: PronunciationResult; // Learner attempts at a phrase the coach asked them to repeat
+  corrections?: Correction[]; // What the coach corrected in this learner message
+}
+
+export const CORRECTION_CATEGORIES = ['grammar', 'agreement', 'tense', 'word-order', 'vocabulary', 'pronunciation', 'spelling', 'other'] as const;
+export type CorrectionCategory = typeof CORRECTION_CATEGORIES[number];
+
+// A mistake the coach corrected, reported through its report_correction tool
+export interface Correction {
+  original: string; // What the learner said, as the coach heard it
+  corrected: string;
+  explanation: string; // In the learner's native language
+  category: CorrectionCategory;
+}
+
+// How closely a spoken attempt matched the phrase the coach asked for (see utils/pronunciation.ts)
+export interface PronunciationResult {
+  target: string;
+  words: { expected: string; heard?: string; score: number }[]; // score 0-100; heard is missing if skipped
+  score: number; // 0-100, mean of the word scores
+}
+
+// One step session's average pronunciation score, kept on the profile to show progress
+export interface PronunciationScore {
+  at: number; // epoch ms
+  score: number;
+  attempts: number;
 }
 
 export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
 export type ProficiencyLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1';
+export const PROFICIENCY_LEVELS: ProficiencyLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1'];
 export type LearningMode = 'assisted' | 'immersion';
+export type InputMode = 'voice' | 'text'; // 'text' never requests the microphone
 export type StepType = 'vocabulary' | 'listening' | 'reading' | 'grammar' | 'speaking' | 'challenge';
+export const STEP_TYPES: StepType[] = ['vocabulary', 'listening', 'reading', 'grammar', 'speaking', 'challenge'];
 
 export interface Step {
   id: string;
   title: string;
   type: StepType;
   order: number;
+  objectives?: string[]; // Overrides the default objectives for the step type
+}
+
+export interface VocabularyItem {
+  term: string; // In the target language
+  gloss: string; // English meaning; the coach translates it for the learner
 }
 
 export interface Subject {
@@ -45,6 +110,10 @@ export interface Subject {
   icon: string;
   color: string;
   steps: Step[];
+  // Lesson content from the curriculum pack, fed into the coach's prompt
+  objectives?: string[];
+  vocabulary?: VocabularyItem[];
+  grammarPoints?: string[];
 }
 
 export interface Level {
@@ -53,14 +122,189 @@ export interface Level {
   subjects: Subject[];
 }
 
+// A curriculum pack after loading: step templates resolved, contents validated
+export interface CurriculumPack {
+  id: string;
+  version: number;
+  title: string;
+  levels: Level[];
+}
+
+// A curriculum pack as written in curriculum/*.json, before loading (see utils/curriculumValidator.ts)
+export interface RawSubject extends Omit<Subject, 'steps'> {
+  steps: string | Step[]; // A step template name, or the steps themselves
+}
+
+export interface RawLevel extends Omit<Level, 'subjects'> {
+  subjects: RawSubject[];
+}
+
+export interface RawCurriculumPack extends Omit<CurriculumPack, 'levels'> {
+  stepTemplates?: Record<string, Step[]>;
+  levels: RawLevel[];
+}
+
 export interface UserProfile {
   name: string;
+  avatar: string; // Emoji shown in the profile switcher
+  pinHash?: string; // Optional lock on shared devices (see utils/profileLock.ts)
   nativeLanguage: LanguageOption;
+  targetLanguage: TargetLanguageCode;
   mode: LearningMode;
-  // Progress Tracking
+  inputMode: InputMode;
+  // Progress Tracking, for the target language (see LanguageProgress)
   currentLevel: ProficiencyLevel;
   completedSubjects: string[]; // IDs of completed subjects
   completedSteps: string[]; // IDs of completed steps (globally unique IDs recommended, or composite subjectId+stepId)
+  pronunciationScores: Record<string, PronunciationScore[]>; // Keyed by composite step ID, oldest first
+  testedOutSubjects: string[]; // Subjects skipped through the placement test (also listed in completedSubjects)
+  timeZone: string; // IANA zone that streak days are counted in
+  gamification: GamificationState;
+  coachOverrides: CoachOverrides;
+  otherLanguages: Partial<Record<TargetLanguageCode, LanguageProgress>>; // Progress parked while studying another language
+}
+
+// The parts of UserProfile that belong to one target language (see utils/languageProgress.ts)
+export type LanguageProgress = Pick<
+  UserProfile,
+  'currentLevel' | 'completedSubjects' | 'completedSteps' | 'pronunciationScores' | 'testedOutSubjects' | 'coachOverrides'
+>;
+
+// XP, gems, streak and daily goal (see utils/gamification.ts)
+export interface GamificationState {
+  xp: number; // Lifetime total
+  gems: number;
+  dailyGoalXp: number;
+  xpByDay: Record<string, number>; // 'YYYY-MM-DD' in the learner's time zone
+  frozenDays: string[]; // Missed days covered by a streak freeze
+  streakFreezes: number; // Owned, not yet used
+}
+
+// The coach's running assessment of a step, driven by its tool calls
+export interface StepAssessment {
+  objectives: string[];
+  objectivesMet: number[]; // Indices into objectives
+  score?: number; // 0-100, latest reported by the coach
+  feedback?: string;
+  finished: boolean; // finish_step was called
+  passed: boolean;
+  summary?: string;
+}
+
+// A word the coach taught, reported through its save_vocabulary_word tool
+export interface CapturedWord {
+  term: string; // In the target language
+  gloss: string; // In the learner's native language
+  example?: string;
+  subjectId: string;
+  subjectTitle: string;
+}
+
+// What tapping a target-language word in a coach message shows (see utils/wordLookup.ts)
+export interface WordLookupResult {
+  term: string;
+  translation: string; // In the learner's native language; empty if unknown offline
+  partOfSpeech?: string;
+  pronunciation?: string; // A hint for the target variety, e.g. "/ɔˈla/"
+}
+
+// A deck card, scheduled with SM-2 (see utils/srs.ts)
+export interface VocabularyCard extends CapturedWord {
+  id: string;
+  addedAt: number; // epoch ms
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  dueAt: number; // epoch ms
+  lastReviewedAt?: number;
+}
+
+// A recurring mistake or a clear strength, reported through the coach's note_learner_pattern tool
+export interface LearnerNote {
+  kind: 'error' | 'strength';
+  pattern: string; // Short and general, e.g. "confuses ser and estar"
+  example?: string; // What the learner said
+}
+
+// A note merged across sessions (see utils/learnerMemory.ts)
+export interface LearnerPattern extends LearnerNote {
+  count: number;
+  firstSeenAt: number; // epoch ms
+  lastSeenAt: number;
+}
+
+export interface LearnerMemory {
+  patterns: LearnerPattern[];
+}
+
+// SM-2 recall quality from 0 (blackout) to 5 (perfect), as graded by the coach
+export interface CardGrade {
+  cardId: string;
+  quality: number;
+}
+
+// The coach's CEFR estimate from the onboarding placement conversation
+export interface PlacementResult {
+  level: ProficiencyLevel;
+  confidence?: 'low' | 'medium' | 'high';
+  rationale?: string;
+}
+
+// What LiveSession runs: a curriculum step, a voice review of due deck cards,
+// the onboarding placement conversation, or a challenge to test out of a locked
+// subject (or a whole level when subject is omitted)
+export type SessionPlan =
+  | { kind: 'lesson'; level: Level; subject: Subject; step: Step }
+  | { kind: 'review'; cards: VocabularyCard[] }
+  | { kind: 'placement' }
+  | { kind: 'testOut'; level: Level; subject?: Subject };
+
+// What LiveSession hands back when a session ends
+export interface SessionTranscript {
+  messages: ChatMessage[];
+  startedAt: number; // epoch ms
+  endedAt: number;
+  assessment?: StepAssessment;
+  capturedWords?: CapturedWord[];
+  cardGrades?: CardGrade[];
+  pronunciation?: PronunciationResult[];
+  placement?: PlacementResult;
+  learnerNotes?: LearnerNote[];
+  corrections?: Correction[];
+  promptVersion?: string; // Prompt templates the coach ran with, e.g. "persona@1 protocol-assisted@1 …"
+}
+
+// End-of-lesson summary, shown before returning to the map and kept with the session
+// (see utils/reportCard.ts)
+export interface LessonReport {
+  newWords: { term: string; gloss: string }[];
+  phrases: { phrase: string; score: number }[]; // Best pronunciation score for each phrase practised
+  corrections: Correction[];
+  speakingMs: number; // Estimated time the learner spent speaking
+  score: number; // 0-100, what the rating is derived from
+  rating: number; // 1-5 stars
+  summary?: string; // The coach's closing remark
+  xp?: number;
+}
+
+// A finished lesson, kept so learners can reread what the coach taught them
+export interface SessionRecord {
+  id: string;
+  compositeStepId: string; // `${subjectId}-${stepId}`, same key as completedSteps
+  levelId: ProficiencyLevel;
+  subjectId: string;
+  subjectTitle: string;
+  stepId: string;
+  stepTitle: string;
+  stepType: StepType;
+  characterId: string;
+  startedAt: number; // epoch ms
+  durationMs: number;
+  completed: boolean; // false when the learner exited early
+  messages: ChatMessage[];
+  assessment?: StepAssessment;
+  promptVersion?: string; // Missing on sessions saved before prompts were versioned
+  report?: LessonReport; // Completed lessons only
 }
 
 // Gemini Live API Types (Simplified for internal use)
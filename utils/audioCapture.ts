@@ -0,0 +1,93 @@
+import { FrameChunker, SincResampler } from './resampler';
+
+// Microphone capture on the audio rendering thread.
+// The AudioContext runs at the device's native rate (Safari and some Android builds ignore a
+// requested sampleRate), the worklet resamples to the target rate and posts fixed-size frames.
+
+const PROCESSOR_NAME = 'linguoflow-pcm-capture';
+
+const WORKLET_SOURCE = `
+const SincResampler = (${SincResampler.toString()});
+const FrameChunker = (${FrameChunker.toString()});
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.resampler = new SincResampler(sampleRate, targetSampleRate);
+    this.chunker = new FrameChunker(frameSize);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (const frame of this.chunker.push(this.resampler.process(channel))) {
+      this.port.postMessage(frame, [frame.buffer]);
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface MicCaptureOptions {
+  targetSampleRate: number;
+  frameSize: number;
+  onFrame: (frame: Float32Array) => void;
+}
+
+export interface MicCapture {
+  // Native rate the context is actually running at
+  deviceSampleRate: number;
+  stop: () => void;
+}
+
+// addModule must only run once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorkletLoaded = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  if (!ctx.audioWorklet) {
+    throw new Error('AudioWorklet is not supported in this browser (a secure context is required)');
+  }
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export async function startMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  { targetSampleRate, frameSize, onFrame }: MicCaptureOptions
+): Promise<MicCapture> {
+  await ensureWorkletLoaded(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate, frameSize },
+  });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(e.data);
+
+  source.connect(node);
+  // The node writes silence; connecting it keeps the graph pulling it in every browser
+  node.connect(ctx.destination);
+
+  return {
+    deviceSampleRate: ctx.sampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
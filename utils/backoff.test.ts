@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getBackoffDelay } from './backoff';
+
+describe('getBackoffDelay', () => {
+  it('doubles the delay with each attempt', () => {
+    expect([0, 1, 2, 3].map(attempt => getBackoffDelay(attempt, () => 0))).toEqual([250, 500, 1000, 2000]);
+  });
+
+  it('caps the delay at 15 seconds however many attempts have failed', () => {
+    expect(getBackoffDelay(5, () => 0.999)).toBeLessThan(15000);
+    expect(getBackoffDelay(20, () => 0)).toBe(7500);
+    expect(getBackoffDelay(20, () => 0.999)).toBeCloseTo(14992.5);
+  });
+
+  it('keeps the jitter within the upper half of the window', () => {
+    for (const random of [0, 0.25, 0.5, 0.75, 0.999]) {
+      const delay = getBackoffDelay(2, () => random);
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThan(2000);
+    }
+  });
+});
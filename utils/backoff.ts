@@ -0,0 +1,13 @@
+// Exponential backoff with jitter for Live reconnection attempts
+
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 15000;
+
+// attempt is zero-based: 0 -> ~0.5s, 1 -> ~1s, 2 -> ~2s ... capped at 15s.
+// random is a source in [0, 1), injectable so tests can pin the jitter.
+export const getBackoffDelay = (attempt: number, random: () => number = Math.random): number => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  // Full jitter on the upper half so many clients dropped together don't reconnect in lockstep
+  return exponential / 2 + random() * (exponential / 2);
+};
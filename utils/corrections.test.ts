@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, Correction, LessonReport, SessionPlan } from '../types';
+import { getCurriculum } from '../constants';
+import { attachCorrections, findCorrectedMessageIndex, splitByCorrections } from './corrections';
+import { getTranslator } from './i18n';
+import { applySessionToolCall, createSessionToolState } from './lessonTools';
+import { formatCorrection, formatReportText } from './reportCard';
+
+const correction = (original: string, corrected: string, explanation = ''): Correction =>
+  ({ original, corrected, explanation, category: 'grammar' });
+
+const message = (role: ChatMessage['role'], text: string): ChatMessage => ({ id: text, role, text });
+
+const lesson = (): SessionPlan => {
+  const level = getCurriculum('pt-PT')[0];
+  const subject = level.subjects[0];
+  return { kind: 'lesson', level, subject, step: subject.steps[0] };
+};
+
+describe('report_correction', () => {
+  const report = (args: Record<string, unknown>) =>
+    applySessionToolCall(createSessionToolState([]), { name: 'report_correction', args }, lesson());
+
+  it('records a trimmed correction', () => {
+    const { state, response } = report({ original: ' eu sou cansado ', corrected: 'eu estou cansado', explanation: 'Use estar for states.', category: 'grammar' });
+    expect(response).toEqual({ result: 'ok' });
+    expect(state.corrections).toEqual([correction('eu sou cansado', 'eu estou cansado', 'Use estar for states.')]);
+  });
+
+  it('files unknown categories under other', () => {
+    const { state } = report({ original: 'a', corrected: 'b', category: 'style' });
+    expect(state.corrections[0].category).toBe('other');
+    expect(state.corrections[0].explanation).toBe('');
+  });
+
+  it('refuses a correction without both texts', () => {
+    const { state, response } = report({ original: 'eu sou cansado', corrected: ' ' });
+    expect(response).toEqual({ error: 'original and corrected are required' });
+    expect(state.corrections).toEqual([]);
+  });
+
+  it('is only available in lessons', () => {
+    const { response } = applySessionToolCall(createSessionToolState([]), { name: 'report_correction', args: { original: 'a', corrected: 'b' } }, { kind: 'placement' });
+    expect(response).toEqual({ error: 'Unknown function report_correction' });
+  });
+});
+
+describe('attachCorrections', () => {
+  const messages = [
+    message('user', 'Eu sou cansado hoje.'),
+    message('model', 'Ah, estás cansado?'),
+    message('user', 'Sim, muito'),
+    message('model', 'Porquê?'),
+  ];
+
+  it('puts a correction on the learner message that contains it', () => {
+    const next = attachCorrections(messages, [correction('sou cansado', 'estou cansado')]);
+    expect(findCorrectedMessageIndex(messages, 'SOU cansado')).toBe(0);
+    expect(next[0].corrections).toEqual([correction('sou cansado', 'estou cansado')]);
+    expect(next[2].corrections).toBeUndefined();
+  });
+
+  it('falls back to the latest learner message when the text was transcribed differently', () => {
+    const next = attachCorrections(messages, [correction('muitos', 'muito')]);
+    expect(next[2].corrections).toEqual([correction('muitos', 'muito')]);
+  });
+
+  it('leaves a transcript without learner messages alone', () => {
+    const modelOnly = [message('model', 'Olá!')];
+    expect(attachCorrections(modelOnly, [correction('a', 'b')])).toBe(modelOnly);
+  });
+});
+
+describe('splitByCorrections', () => {
+  it('splits out each corrected part in place, ignoring case', () => {
+    const first = correction('Sou cansado', 'estou cansado');
+    const second = correction('a praia', 'à praia');
+    expect(splitByCorrections('Eu sou cansado e vou a praia.', [second, first])).toEqual({
+      segments: [
+        { text: 'Eu ' },
+        { text: 'sou cansado', correction: first },
+        { text: ' e vou ' },
+        { text: 'a praia', correction: second },
+        { text: '.' },
+      ],
+      unplaced: [],
+    });
+  });
+
+  it('returns corrections it cannot place, including overlapping ones', () => {
+    const missing = correction('tenho fome', 'estou com fome');
+    const overlapping = correction('cansado', 'cansada');
+    const { segments, unplaced } = splitByCorrections('Sou cansado', [correction('sou cansado', 'estou cansado'), overlapping, missing]);
+    expect(segments).toHaveLength(1);
+    expect(unplaced).toEqual([overlapping, missing]);
+  });
+});
+
+describe('formatting corrections', () => {
+  const t = getTranslator('en-US');
+  const report = (corrections: Correction[]): LessonReport =>
+    ({ newWords: [], phrases: [], corrections, speakingMs: 60_000, score: 80, rating: 4 });
+
+  it('shows the original and the corrected text', () => {
+    expect(formatCorrection(correction('sou cansado', 'estou cansado'))).toBe('sou cansado → estou cansado');
+  });
+
+  it('shows only the note for corrections migrated from older reports', () => {
+    expect(formatCorrection(correction('', '', 'Use estar for temporary states'))).toBe('Use estar for temporary states');
+  });
+
+  it('adds the explanation in the shared text', () => {
+    const text = formatReportText(report([
+      correction('sou cansado', 'estou cansado', 'Use estar for states.'),
+      correction('', '', 'Watch the nasal vowels'),
+    ]), 'Lesson', t);
+    expect(text).toContain('- sou cansado → estou cansado: Use estar for states.\n- Watch the nasal vowels\n');
+  });
+});
@@ -0,0 +1,57 @@
+import { ChatMessage, Correction } from '../types';
+import { normalizePhrase } from './pronunciation';
+
+// Places the coach's report_correction events on the learner messages they refer to
+
+const containsWords = (haystack: string[], needle: string[]) =>
+  needle.length > 0 && haystack.some((_, i) => needle.every((word, j) => haystack[i + j] === word));
+
+// The latest learner message containing the corrected text; otherwise the latest learner
+// message, since the coach corrects what was just said (and transcription may differ slightly)
+export function findCorrectedMessageIndex(messages: ChatMessage[], original: string): number {
+  const needle = normalizePhrase(original);
+  let latest = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== 'user' || !messages[i].text) continue;
+    if (latest === -1) latest = i;
+    if (containsWords(normalizePhrase(messages[i].text), needle)) return i;
+  }
+  return latest;
+}
+
+export function attachCorrections(messages: ChatMessage[], corrections: Correction[]): ChatMessage[] {
+  let next = messages;
+  for (const correction of corrections) {
+    const index = findCorrectedMessageIndex(next, correction.original);
+    if (index === -1) continue;
+    next = next.map((m, i) => i === index ? { ...m, corrections: [...(m.corrections ?? []), correction] } : m);
+  }
+  return next;
+}
+
+export type CorrectionSegment = { text: string; correction?: Correction };
+
+// Splits a message so each corrected part can be struck through in place. Corrections whose
+// original text isn't found verbatim are left out and shown separately.
+export function splitByCorrections(text: string, corrections: Correction[]): { segments: CorrectionSegment[]; unplaced: Correction[] } {
+  const lower = text.toLowerCase();
+  const placed: { start: number; end: number; correction: Correction }[] = [];
+  const unplaced: Correction[] = [];
+  for (const correction of corrections) {
+    const start = correction.original ? lower.indexOf(correction.original.toLowerCase()) : -1;
+    const end = start + correction.original.length;
+    if (start === -1 || placed.some(p => start < p.end && end > p.start)) unplaced.push(correction);
+    else placed.push({ start, end, correction });
+  }
+  placed.sort((a, b) => a.start - b.start);
+
+  const segments: CorrectionSegment[] = [];
+  let cursor = 0;
+  for (const { start, end, correction } of placed) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start) });
+    segments.push({ text: text.slice(start, end), correction });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return { segments, unplaced };
+}
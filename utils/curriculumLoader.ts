@@ -0,0 +1,47 @@
+import { CurriculumPack, Level, RawCurriculumPack } from '../types';
+import { CurriculumIssue, validateCurriculumPack } from './curriculumValidator';
+
+export class CurriculumValidationError extends Error {
+  issues: CurriculumIssue[];
+
+  constructor(packId: string, issues: CurriculumIssue[]) {
+    super(
+      `Curriculum pack "${packId}" is invalid:\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'CurriculumValidationError';
+    this.issues = issues;
+  }
+}
+
+// Validates a raw pack (parsed JSON) and resolves step templates into concrete step lists
+export function loadCurriculumPack(raw: unknown): CurriculumPack {
+  const issues = validateCurriculumPack(raw);
+  if (issues.length > 0) {
+    const packId = (raw as { id?: unknown })?.id;
+    throw new CurriculumValidationError(typeof packId === 'string' ? packId : '(unknown)', issues);
+  }
+
+  // Shape is guaranteed by the validator from here on
+  const pack = raw as RawCurriculumPack;
+  const templates = pack.stepTemplates ?? {};
+
+  const levels: Level[] = pack.levels.map(level => ({
+    id: level.id,
+    title: level.title,
+    subjects: level.subjects.map(subject => ({
+      id: subject.id,
+      title: subject.title,
+      description: subject.description,
+      icon: subject.icon,
+      color: subject.color,
+      steps: [...(typeof subject.steps === 'string' ? templates[subject.steps] : subject.steps)]
+        .sort((a, b) => a.order - b.order),
+      objectives: subject.objectives,
+      vocabulary: subject.vocabulary,
+      grammarPoints: subject.grammarPoints,
+    })),
+  }));
+
+  return { id: pack.id, version: pack.version, title: pack.title, levels };
+}
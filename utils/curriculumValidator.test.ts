@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import esESPack from '../curriculum/es-ES.json';
+import ptBRPack from '../curriculum/pt-BR.json';
+import ptPTPack from '../curriculum/pt-PT.json';
+import { CurriculumValidationError, loadCurriculumPack } from './curriculumLoader';
+import { validateCurriculumPack } from './curriculumValidator';
+
+const step = (order: number, type = 'vocabulary') => ({ id: `step-${order}`, order, type, title: `Step ${order}` });
+
+const subject = (id: string, steps: unknown) => ({
+  id,
+  title: 'Greetings',
+  description: 'Say hello',
+  icon: '👋',
+  color: 'bg-green-500',
+  steps,
+});
+
+const pack = (levels: unknown, stepTemplates: unknown = { standard: [step(1), step(2, 'speaking')] }) => ({
+  id: 'test',
+  version: 1,
+  title: 'Test pack',
+  stepTemplates,
+  levels,
+});
+
+const messages = (raw: unknown) => validateCurriculumPack(raw).map(issue => `${issue.path}: ${issue.message}`);
+
+describe('validateCurriculumPack', () => {
+  it('accepts the shipped packs', () => {
+    for (const raw of [ptPTPack, ptBRPack, esESPack]) expect(messages(raw)).toEqual([]);
+  });
+
+  it('accepts subjects that name a template or list their own steps', () => {
+    const raw = pack([{ id: 'A1', title: 'A1', subjects: [subject('hello', 'standard'), subject('bye', [step(2), step(1, 'grammar')])] }]);
+    expect(messages(raw)).toEqual([]);
+  });
+
+  it('rejects a pack that is not an object', () => {
+    expect(messages([])).toEqual(['$: pack must be a JSON object']);
+  });
+
+  it('reports every problem with its path', () => {
+    const raw = {
+      id: 'test',
+      version: 0,
+      title: '',
+      levels: [
+        { id: 'A1', title: 'A1', subjects: [subject('hello', 'missing'), subject('hello', [step(1, 'dancing'), step(3)])] },
+        { id: 'A1', title: 'Again', subjects: [] },
+        { id: 'Z9', title: 'Unknown' },
+      ],
+    };
+    expect(messages(raw)).toEqual([
+      '$.title: is required and must be a non-empty string',
+      '$.version: is required and must be a positive integer',
+      '$.levels[0].subjects[0].steps: unknown step template "missing"',
+      '$.levels[0].subjects[1].id: duplicate subject id "hello"',
+      '$.levels[0].subjects[1].steps[0].type: unknown step type "dancing" (expected one of vocabulary, listening, reading, grammar, speaking, challenge)',
+      '$.levels[0].subjects[1].steps: step orders must be 1..2 without gaps or duplicates (got 1, 3)',
+      '$.levels[1].id: duplicate level id "A1"',
+      '$.levels[2].id: unknown level "Z9" (expected one of A1, A2, B1, B2, C1)',
+      '$.levels[2].subjects: is required and must be a list (use [] for an empty level)',
+    ]);
+  });
+
+  it('checks step templates, duplicate step IDs and optional lists', () => {
+    const raw = pack(
+      [{ id: 'A1', title: 'A1', subjects: [{ ...subject('hello', 'standard'), objectives: [''], vocabulary: [{ term: 'olá' }] }] }],
+      { standard: [step(1), { ...step(2), id: 'step-1' }], empty: [] },
+    );
+    expect(messages(raw)).toEqual([
+      '$.stepTemplates.standard[1].id: duplicate step id "step-1"',
+      '$.stepTemplates.empty: must be a non-empty list of steps',
+      '$.levels[0].subjects[0].objectives: must be a list of non-empty strings',
+      '$.levels[0].subjects[0].vocabulary[0].gloss: is required and must be a non-empty string',
+    ]);
+  });
+});
+
+describe('loadCurriculumPack', () => {
+  it('resolves templates and sorts inline steps by order', () => {
+    const loaded = loadCurriculumPack(pack([{ id: 'A1', title: 'A1', subjects: [subject('hello', 'standard'), subject('bye', [step(2), step(1, 'grammar')])] }]));
+    const [hello, bye] = loaded.levels[0].subjects;
+    expect(hello.steps.map(s => s.type)).toEqual(['vocabulary', 'speaking']);
+    expect(bye.steps.map(s => s.type)).toEqual(['grammar', 'vocabulary']);
+  });
+
+  it('throws with every issue attached', () => {
+    try {
+      loadCurriculumPack(pack([{ id: 'A1', title: '', subjects: [] }]));
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(CurriculumValidationError);
+      expect((e as CurriculumValidationError).issues).toEqual([{ path: '$.levels[0].title', message: 'is required and must be a non-empty string' }]);
+      expect((e as Error).message).toContain('Curriculum pack "test" is invalid');
+    }
+  });
+});
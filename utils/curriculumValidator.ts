@@ -0,0 +1,163 @@
+import { PROFICIENCY_LEVELS, ProficiencyLevel, STEP_TYPES, StepType } from '../types';
+
+// Schema checks for curriculum pack JSON files (see curriculum/*.json).
+// Reports every problem at once, with a path into the file, so content authors can fix
+// a pack in one pass instead of one error per reload. A pack with no issues is a
+// RawCurriculumPack (see types.ts).
+
+export interface CurriculumIssue {
+  path: string;
+  message: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStepType = (value: unknown): value is StepType => (STEP_TYPES as readonly unknown[]).includes(value);
+
+const isProficiencyLevel = (value: unknown): value is ProficiencyLevel =>
+  (PROFICIENCY_LEVELS as readonly unknown[]).includes(value);
+
+export function validateCurriculumPack(raw: unknown): CurriculumIssue[] {
+  const issues: CurriculumIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  const requireStrings = (obj: Record<string, unknown>, path: string, fields: string[]) => {
+    for (const field of fields) {
+      if (!isNonEmptyString(obj[field])) report(`${path}.${field}`, 'is required and must be a non-empty string');
+    }
+  };
+
+  const validateStringList = (value: unknown, path: string) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value) || value.some(v => !isNonEmptyString(v))) {
+      report(path, 'must be a list of non-empty strings');
+    }
+  };
+
+  const validateSteps = (steps: unknown, path: string) => {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      report(path, 'must be a non-empty list of steps');
+      return;
+    }
+    const ids = new Set<string>();
+    const orders: number[] = [];
+    steps.forEach((step, i) => {
+      const stepPath = `${path}[${i}]`;
+      if (!isObject(step)) {
+        report(stepPath, 'must be an object');
+        return;
+      }
+      requireStrings(step, stepPath, ['id', 'title']);
+      if (isNonEmptyString(step.id)) {
+        if (ids.has(step.id)) report(`${stepPath}.id`, `duplicate step id "${step.id}"`);
+        ids.add(step.id);
+      }
+      if (!isStepType(step.type)) {
+        report(`${stepPath}.type`, `unknown step type "${String(step.type)}" (expected one of ${STEP_TYPES.join(', ')})`);
+      }
+      if (!Number.isInteger(step.order)) {
+        report(`${stepPath}.order`, 'is required and must be an integer');
+      } else {
+        orders.push(step.order as number);
+      }
+      validateStringList(step.objectives, `${stepPath}.objectives`);
+    });
+
+    // Orders must run 1..n with no gaps or repeats; LessonMap and completion rely on it
+    const sorted = [...orders].sort((a, b) => a - b);
+    if (sorted.some((order, i) => order !== i + 1)) {
+      report(path, `step orders must be 1..${steps.length} without gaps or duplicates (got ${orders.join(', ')})`);
+    }
+  };
+
+  if (!isObject(raw)) {
+    report('$', 'pack must be a JSON object');
+    return issues;
+  }
+
+  requireStrings(raw, '$', ['id', 'title']);
+  if (!Number.isInteger(raw.version) || (raw.version as number) < 1) {
+    report('$.version', 'is required and must be a positive integer');
+  }
+
+  const templates = raw.stepTemplates ?? {};
+  if (!isObject(templates)) {
+    report('$.stepTemplates', 'must be an object of named step lists');
+  } else {
+    for (const [name, steps] of Object.entries(templates)) {
+      validateSteps(steps, `$.stepTemplates.${name}`);
+    }
+  }
+
+  if (!Array.isArray(raw.levels)) {
+    report('$.levels', 'is required and must be a list');
+    return issues;
+  }
+
+  const levelIds = new Set<string>();
+  const subjectIds = new Set<string>();
+
+  raw.levels.forEach((level, li) => {
+    const levelPath = `$.levels[${li}]`;
+    if (!isObject(level)) {
+      report(levelPath, 'must be an object');
+      return;
+    }
+    if (!isProficiencyLevel(level.id)) {
+      report(`${levelPath}.id`, `unknown level "${String(level.id)}" (expected one of ${PROFICIENCY_LEVELS.join(', ')})`);
+    } else if (levelIds.has(level.id)) {
+      report(`${levelPath}.id`, `duplicate level id "${level.id}"`);
+    } else {
+      levelIds.add(level.id);
+    }
+    requireStrings(level, levelPath, ['title']);
+
+    if (!Array.isArray(level.subjects)) {
+      report(`${levelPath}.subjects`, 'is required and must be a list (use [] for an empty level)');
+      return;
+    }
+
+    level.subjects.forEach((subject, si) => {
+      const subjectPath = `${levelPath}.subjects[${si}]`;
+      if (!isObject(subject)) {
+        report(subjectPath, 'must be an object');
+        return;
+      }
+      requireStrings(subject, subjectPath, ['id', 'title', 'description', 'icon', 'color']);
+
+      // Subject IDs prefix the completedSteps keys, so they must be unique across the whole pack
+      if (isNonEmptyString(subject.id)) {
+        if (subjectIds.has(subject.id)) report(`${subjectPath}.id`, `duplicate subject id "${subject.id}"`);
+        subjectIds.add(subject.id);
+      }
+
+      if (typeof subject.steps === 'string') {
+        if (!isObject(templates) || !(subject.steps in templates)) {
+          report(`${subjectPath}.steps`, `unknown step template "${subject.steps}"`);
+        }
+      } else {
+        validateSteps(subject.steps, `${subjectPath}.steps`);
+      }
+
+      validateStringList(subject.objectives, `${subjectPath}.objectives`);
+      validateStringList(subject.grammarPoints, `${subjectPath}.grammarPoints`);
+      if (subject.vocabulary !== undefined) {
+        if (!Array.isArray(subject.vocabulary)) {
+          report(`${subjectPath}.vocabulary`, 'must be a list of { term, gloss }');
+        } else {
+          subject.vocabulary.forEach((item, vi) => {
+            const itemPath = `${subjectPath}.vocabulary[${vi}]`;
+            if (!isObject(item)) report(itemPath, 'must be an object with term and gloss');
+            else requireStrings(item, itemPath, ['term', 'gloss']);
+          });
+        }
+      }
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,20 @@
+import { TargetLanguageCode, VocabularyCard } from '../types';
+import { Migration, readVersioned, removeRecord, scopedKey, writeVersioned } from './storage';
+
+export const DECK_KEY = 'deck';
+
+// Bump when VocabularyCard changes shape and add a migration from the previous version below.
+export const DECK_SCHEMA_VERSION = 1;
+
+// Keyed by the version being migrated FROM
+const DECK_MIGRATIONS: Record<number, Migration> = {};
+
+// One deck per target language
+export const loadDeck = async (profileId: string, language: TargetLanguageCode): Promise<VocabularyCard[]> =>
+  (await readVersioned<VocabularyCard[]>(scopedKey(DECK_KEY, profileId, language), DECK_SCHEMA_VERSION, DECK_MIGRATIONS)) ?? [];
+
+export const saveDeck = (profileId: string, language: TargetLanguageCode, deck: VocabularyCard[]): Promise<void> =>
+  writeVersioned(scopedKey(DECK_KEY, profileId, language), DECK_SCHEMA_VERSION, deck);
+
+export const clearDeck = (profileId: string, language: TargetLanguageCode): Promise<void> =>
+  removeRecord(scopedKey(DECK_KEY, profileId, language));
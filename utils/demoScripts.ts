@@ -0,0 +1,128 @@
+import { getTestOutObjectives } from '../constants';
+import { SessionPlan, VocabularyCard } from '../types';
+import { LiveScript } from './scriptedTransport';
+
+// Canned coach turns for offline demos. Written for an English-speaking learner in assisted mode.
+export const DEMO_LESSON_SCRIPT: LiveScript = {
+  turns: [
+    {
+      modelTranscript: "Welcome! Let's start the lesson. Our first word is 'Olá', which means hello. Listen: 'Olá'. Now you try!",
+      toolCalls: [
+        { name: 'save_vocabulary_word', args: { term: 'Olá', gloss: 'Hello', example: 'Olá, tudo bem?' } },
+        { name: 'set_target_phrase', args: { phrase: 'Olá' } },
+      ],
+    },
+    {
+      userTranscript: 'Olá',
+      modelTranscript: "Great job! Next word: 'Obrigado', which means thank you. Listen: 'Obrigado'. Your turn.",
+      toolCalls: [
+        { name: 'mark_objective_met', args: { objective_index: 0, evidence: 'Said "Olá"' } },
+        { name: 'save_vocabulary_word', args: { term: 'Obrigado', gloss: 'Thank you', example: 'Muito obrigado pela ajuda.' } },
+        { name: 'set_target_phrase', args: { phrase: 'Obrigado' } },
+      ],
+    },
+    {
+      userTranscript: 'Obrigada',
+      modelTranscript: "Very good! Remember, 'obrigado' ends in -o for men and -a for women. Now a longer one: 'Bom dia', good morning. Try saying it slowly.",
+      interruptAfterChunks: 21,
+      toolCalls: [
+        { name: 'mark_objective_met', args: { objective_index: 1, evidence: 'Said "Obrigado"' } },
+        {
+          name: 'report_correction',
+          args: { original: 'Obrigada', corrected: 'Obrigado', explanation: 'It agrees with the speaker: men say "obrigado", women say "obrigada".', category: 'agreement' },
+        },
+        { name: 'save_vocabulary_word', args: { term: 'Bom dia', gloss: 'Good morning', example: 'Bom dia, senhor!' } },
+        { name: 'set_target_phrase', args: { phrase: 'Bom dia' } },
+      ],
+    },
+    {
+      userTranscript: 'Bom dia',
+      modelTranscript: "Perfeito! Last word for today: 'Até logo', see you later. Say 'Até logo'.",
+      toolCalls: [
+        { name: 'mark_objective_met', args: { objective_index: 2, evidence: 'Said "Bom dia"' } },
+        { name: 'save_vocabulary_word', args: { term: 'Até logo', gloss: 'See you later', example: 'Até logo, Sofia!' } },
+        { name: 'set_target_phrase', args: { phrase: 'Até logo' } },
+      ],
+    },
+    {
+      userTranscript: 'Até logo',
+      modelTranscript: "Excellent! You learned four words today: Olá, Obrigado, Bom dia and Até logo. You can complete the lesson now.",
+      toolCalls: [
+        { name: 'report_score', args: { score: 90, feedback: 'Clear pronunciation; keep working on the nasal vowels.' } },
+        { name: 'finish_step', args: { passed: true, summary: 'Greeted, thanked and said goodbye in Portuguese.' } },
+      ],
+    },
+  ],
+};
+
+// Offline review: quizzes each due card in turn, grading every answer as a confident recall
+export const buildDemoReviewScript = (cards: VocabularyCard[]): LiveScript => ({
+  turns: [
+    ...cards.map((card, i) => ({
+      userTranscript: i === 0 ? undefined : cards[i - 1].term,
+      modelTranscript: `${i === 0 ? "Time for your review! " : 'Correct! '}How do you say '${card.gloss}' in Portuguese?`,
+      toolCalls: i === 0 ? undefined : [{ name: 'grade_card', args: { card_index: i - 1, quality: 4 } }],
+    })),
+    {
+      userTranscript: cards[cards.length - 1]?.term,
+      modelTranscript: 'Correct! That was every card for today. Great work, you can finish the review now.',
+      toolCalls: [
+        { name: 'grade_card', args: { card_index: cards.length - 1, quality: 4 } },
+        { name: 'finish_step', args: { passed: true } },
+      ],
+    },
+  ],
+});
+
+// Offline placement: two rounds of questions, then an A2 estimate
+export const DEMO_PLACEMENT_SCRIPT: LiveScript = {
+  turns: [
+    {
+      modelTranscript: "Hi! Let's chat a little in Portuguese to find your level. It's fine to say you don't know. Então, como te chamas e de onde és?",
+    },
+    {
+      userTranscript: 'Chamo-me Alex e sou de Londres.',
+      modelTranscript: 'Muito bem! E o que fizeste no fim de semana passado?',
+    },
+    {
+      userTranscript: 'Eu... fui ao cinema com amigos.',
+      modelTranscript: 'Boa! E se pudesses viver em qualquer cidade do mundo, qual escolherias e porquê?',
+    },
+    {
+      userTranscript: "Sorry, I don't understand.",
+      modelTranscript: "No problem at all! You handle everyday topics well, so I recommend starting at A2. You can continue now.",
+      toolCalls: [{
+        name: 'report_placement',
+        args: { level: 'A2', confidence: 'medium', rationale: 'Comfortable with introductions and the past tense; hypotheticals broke down.' },
+      }],
+    },
+  ],
+};
+
+// Offline test-out: every answer is right, so each objective is met in turn and the learner passes
+export const buildDemoTestOutScript = (objectiveCount: number): LiveScript => ({
+  turns: [
+    { modelTranscript: "Let's see if you can skip ahead! Quick-fire questions, no hints. Primeira pergunta: como se diz 'good evening'?" },
+    ...Array.from({ length: objectiveCount }, (_, i) => ({
+      userTranscript: i % 2 === 0 ? 'Boa noite.' : 'Sim, claro.',
+      modelTranscript: i === objectiveCount - 1
+        ? 'Certo! You passed the challenge, you can skip ahead now.'
+        : 'Certo! Próxima pergunta: e como respondes a isso?',
+      toolCalls: [
+        { name: 'mark_objective_met', args: { objective_index: i } },
+        ...(i === objectiveCount - 1
+          ? [{ name: 'report_score', args: { score: 88 } }, { name: 'finish_step', args: { passed: true } }]
+          : []),
+      ],
+    })),
+  ],
+});
+
+export const getDemoScript = (plan: SessionPlan): LiveScript => {
+  switch (plan.kind) {
+    case 'review': return buildDemoReviewScript(plan.cards);
+    case 'placement': return DEMO_PLACEMENT_SCRIPT;
+    case 'testOut': return buildDemoTestOutScript(getTestOutObjectives(plan.level, plan.subject).length);
+    default: return DEMO_LESSON_SCRIPT;
+  }
+};
@@ -0,0 +1,27 @@
+// Triggers a browser download for generated content (recordings, transcripts)
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Opens the system share sheet where files can be shared (mostly mobile), otherwise downloads
+export async function shareOrDownload(blob: Blob, filename: string, title: string): Promise<void> {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (e) {
+      // Closing the share sheet isn't a failure, and shouldn't fall through to a download
+      if ((e as Error).name === 'AbortError') return;
+    }
+  }
+  downloadBlob(blob, filename);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { GamificationState, StepAssessment } from '../types';
+import {
+  awardXp,
+  buyStreakFreeze,
+  calculateReviewXp,
+  calculateStepXp,
+  createGamificationState,
+  dayKey,
+  GEMS_FOR_DAILY_GOAL,
+  getLongestStreak,
+  getStreak,
+  settleStreak,
+  shiftDay,
+  STARTING_GEMS,
+  STREAK_FREEZE_COST,
+} from './gamification';
+
+const LISBON = 'Europe/Lisbon';
+const TOKYO = 'Asia/Tokyo';
+const LOS_ANGELES = 'America/Los_Angeles';
+
+// 23:30 UTC on 10 March 2026: already the 11th in Tokyo, still the 10th in Los Angeles
+const LATE_EVENING_UTC = Date.UTC(2026, 2, 10, 23, 30);
+const at = (day: string, time = '12:00') => new Date(`${day}T${time}:00Z`).getTime();
+
+const withDays = (xpByDay: Record<string, number>, extra: Partial<GamificationState> = {}): GamificationState => ({
+  ...createGamificationState(),
+  xpByDay,
+  ...extra,
+});
+
+describe('day keys', () => {
+  it('uses the calendar day in the learner\'s time zone', () => {
+    expect(dayKey(LATE_EVENING_UTC, LISBON)).toBe('2026-03-10');
+    expect(dayKey(LATE_EVENING_UTC, TOKYO)).toBe('2026-03-11');
+    expect(dayKey(LATE_EVENING_UTC, LOS_ANGELES)).toBe('2026-03-10');
+  });
+
+  it('shifts across month ends and the DST change', () => {
+    expect(shiftDay('2026-02-28', 1)).toBe('2026-03-01');
+    expect(shiftDay('2026-03-29', 1)).toBe('2026-03-30');
+    expect(shiftDay('2026-01-01', -1)).toBe('2025-12-31');
+  });
+});
+
+describe('getStreak', () => {
+  const state = withDays({ '2026-03-08': 10, '2026-03-09': 10, '2026-03-10': 10 });
+
+  it('counts consecutive days ending today', () => {
+    expect(getStreak(state, at('2026-03-10'), LISBON)).toBe(3);
+  });
+
+  it('keeps a streak that ran until yesterday alive for the rest of today', () => {
+    expect(getStreak(state, at('2026-03-11'), LISBON)).toBe(3);
+    expect(getStreak(state, at('2026-03-12'), LISBON)).toBe(0);
+  });
+
+  it('follows the learner\'s day boundary rather than UTC', () => {
+    // Past midnight in Tokyo, the 10th is yesterday there and the streak still stands
+    expect(getStreak(state, LATE_EVENING_UTC, TOKYO)).toBe(3);
+    // Two days on in Tokyo it is over, while it is still the 11th in Los Angeles
+    const twoDaysLater = LATE_EVENING_UTC + 24 * 60 * 60 * 1000;
+    expect(getStreak(state, twoDaysLater, TOKYO)).toBe(0);
+    expect(getStreak(state, twoDaysLater, LOS_ANGELES)).toBe(3);
+  });
+
+  it('counts frozen days as streak days', () => {
+    const frozen = withDays({ '2026-03-08': 10, '2026-03-10': 10 }, { frozenDays: ['2026-03-09'] });
+    expect(getStreak(frozen, at('2026-03-10'), LISBON)).toBe(3);
+    expect(getLongestStreak(frozen)).toBe(3);
+  });
+});
+
+describe('settleStreak', () => {
+  it('spends a freeze for each missed day when there are enough to bridge the gap', () => {
+    const state = withDays({ '2026-03-08': 10 }, { streakFreezes: 2 });
+    const settled = settleStreak(state, at('2026-03-11'), LISBON);
+    expect(settled.streakFreezes).toBe(0);
+    expect(settled.frozenDays).toEqual(['2026-03-09', '2026-03-10']);
+    expect(getStreak(settled, at('2026-03-11'), LISBON)).toBe(3);
+  });
+
+  it('keeps the freezes and loses the streak when the gap is too long', () => {
+    const state = withDays({ '2026-03-07': 10 }, { streakFreezes: 2 });
+    expect(settleStreak(state, at('2026-03-11'), LISBON)).toBe(state);
+  });
+
+  it('does nothing when no day was missed', () => {
+    const state = withDays({ '2026-03-10': 10 }, { streakFreezes: 1 });
+    expect(settleStreak(state, at('2026-03-11'), LISBON)).toBe(state);
+  });
+});
+
+describe('awardXp', () => {
+  it('adds XP and gems to today in the learner\'s time zone', () => {
+    const state = awardXp(createGamificationState(), 15, 5, LATE_EVENING_UTC, TOKYO);
+    expect(state.xp).toBe(15);
+    expect(state.gems).toBe(STARTING_GEMS + 5);
+    expect(state.xpByDay).toEqual({ '2026-03-11': 15 });
+  });
+
+  it('pays the daily goal bonus once, on the award that reaches the goal', () => {
+    let state = awardXp(createGamificationState(), 15, 0, at('2026-03-10'), LISBON);
+    expect(state.gems).toBe(STARTING_GEMS);
+    state = awardXp(state, 10, 0, at('2026-03-10', '13:00'), LISBON);
+    expect(state.gems).toBe(STARTING_GEMS + GEMS_FOR_DAILY_GOAL);
+    state = awardXp(state, 10, 0, at('2026-03-10', '14:00'), LISBON);
+    expect(state.gems).toBe(STARTING_GEMS + GEMS_FOR_DAILY_GOAL);
+    // A new day starts a new goal
+    state = awardXp(state, 20, 0, at('2026-03-11'), LISBON);
+    expect(state.gems).toBe(STARTING_GEMS + 2 * GEMS_FOR_DAILY_GOAL);
+  });
+
+  it('settles missed days before recording today', () => {
+    const state = withDays({ '2026-03-08': 10 }, { streakFreezes: 1 });
+    const next = awardXp(state, 10, 0, at('2026-03-10'), LISBON);
+    expect(next.frozenDays).toEqual(['2026-03-09']);
+    expect(getStreak(next, at('2026-03-10'), LISBON)).toBe(3);
+  });
+});
+
+describe('XP and streak freezes', () => {
+  it('scales step XP by the coach\'s score', () => {
+    const scored = (score: number): StepAssessment => ({ objectives: [], objectivesMet: [], score, finished: true, passed: true });
+    expect(calculateStepXp('speaking')).toBe(20);
+    expect(calculateStepXp('speaking', scored(100))).toBe(30);
+    expect(calculateStepXp('speaking', scored(0))).toBe(10);
+  });
+
+  it('gives more review XP for stronger recall', () => {
+    expect(calculateReviewXp([{ cardId: 'a', quality: 5 }, { cardId: 'b', quality: 1 }])).toBe(3);
+  });
+
+  it('sells a freeze only when the learner can afford it and has room', () => {
+    const rich = { ...createGamificationState(), gems: 400 };
+    const bought = buyStreakFreeze(rich);
+    expect(bought?.gems).toBe(400 - STREAK_FREEZE_COST);
+    expect(bought?.streakFreezes).toBe(1);
+    expect(buyStreakFreeze({ ...rich, streakFreezes: 2 })).toBeNull();
+    expect(buyStreakFreeze(createGamificationState())).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { CardGrade, GamificationState, StepAssessment, StepType } from '../types';
+
+// XP, gems, daily goal and streak bookkeeping. Everything is stored on the profile
+// (UserProfile.gamification) and updated with these pure functions. Days are calendar
+// days in the learner's time zone, keyed as 'YYYY-MM-DD'.
+
+export const XP_BY_STEP_TYPE: Record<StepType, number> = {
+  vocabulary: 10,
+  listening: 10,
+  grammar: 15,
+  reading: 15,
+  speaking: 20,
+  challenge: 25,
+};
+
+export const XP_PER_REVIEWED_CARD = 2;
+export const XP_PER_TESTED_OUT_STEP = 5;
+
+export const GEMS_PER_COMPLETED_STEP = 5;
+export const GEMS_FOR_DAILY_GOAL = 20;
+export const STARTING_GEMS = 100;
+
+export const STREAK_FREEZE_COST = 150;
+export const MAX_STREAK_FREEZES = 2;
+
+export const DAILY_GOAL_OPTIONS = [
+  { xp: 10, id: 'casual' },
+  { xp: 20, id: 'regular' },
+  { xp: 30, id: 'serious' },
+  { xp: 50, id: 'intense' },
+] as const;
+
+export const createGamificationState = (): GamificationState => ({
+  xp: 0,
+  gems: STARTING_GEMS,
+  dailyGoalXp: 20,
+  xpByDay: {},
+  frozenDays: [],
+  streakFreezes: 0,
+});
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const dayKey = (epochMs: number, timeZone: string) =>
+  // en-CA formats dates as YYYY-MM-DD
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(epochMs);
+
+// Calendar arithmetic on day keys, independent of time zone and DST
+export const shiftDay = (day: string, days: number) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// Base XP for the step type, scaled by the coach's 0-100 score (x0.5 to x1.5)
+export function calculateStepXp(type: StepType, assessment?: StepAssessment): number {
+  const multiplier = assessment?.score !== undefined ? 0.5 + assessment.score / 100 : 1;
+  return Math.round(XP_BY_STEP_TYPE[type] * multiplier);
+}
+
+// Stronger recall earns a little more
+export const calculateReviewXp = (grades: CardGrade[]) =>
+  grades.reduce((sum, g) => sum + (g.quality >= 3 ? XP_PER_REVIEWED_CARD : 1), 0);
+
+const isStreakDay = (state: GamificationState, day: string) =>
+  (state.xpByDay[day] ?? 0) > 0 || state.frozenDays.includes(day);
+
+// Consecutive streak days up to today. Today only breaks the streak once it's over,
+// so a streak that ran until yesterday still counts.
+export function getStreak(state: GamificationState, now: number, timeZone: string): number {
+  let day = dayKey(now, timeZone);
+  if (!isStreakDay(state, day)) day = shiftDay(day, -1);
+  let streak = 0;
+  while (isStreakDay(state, day)) {
+    streak++;
+    day = shiftDay(day, -1);
+  }
+  return streak;
+}
+
+// Spends freezes to cover the days missed since the last streak day, but only when there
+// are enough to bridge the whole gap; otherwise the streak is lost and freezes are kept.
+export function settleStreak(state: GamificationState, now: number, timeZone: string): GamificationState {
+  const today = dayKey(now, timeZone);
+  const lastDay = Object.keys(state.xpByDay)
+    .filter(day => state.xpByDay[day] > 0)
+    .concat(state.frozenDays)
+    .filter(day => day < today)
+    .sort()
+    .pop();
+  if (!lastDay) return state;
+
+  const missed: string[] = [];
+  for (let day = shiftDay(lastDay, 1); day < today; day = shiftDay(day, 1)) missed.push(day);
+  if (missed.length === 0 || missed.length > state.streakFreezes) return state;
+
+  return {
+    ...state,
+    streakFreezes: state.streakFreezes - missed.length,
+    frozenDays: [...state.frozenDays, ...missed],
+  };
+}
+
+export function awardXp(state: GamificationState, xp: number, gems: number, now: number, timeZone: string): GamificationState {
+  if (xp <= 0 && gems <= 0) return state;
+  const settled = settleStreak(state, now, timeZone);
+  const today = dayKey(now, timeZone);
+  const before = settled.xpByDay[today] ?? 0;
+  const after = before + xp;
+  const goalBonus = before < settled.dailyGoalXp && after >= settled.dailyGoalXp ? GEMS_FOR_DAILY_GOAL : 0;
+  return {
+    ...settled,
+    xp: settled.xp + xp,
+    gems: settled.gems + gems + goalBonus,
+    xpByDay: { ...settled.xpByDay, [today]: after },
+  };
+}
+
+// Null when the learner can't afford one or already holds the maximum
+export function buyStreakFreeze(state: GamificationState): GamificationState | null {
+  if (state.gems < STREAK_FREEZE_COST || state.streakFreezes >= MAX_STREAK_FREEZES) return null;
+  return { ...state, gems: state.gems - STREAK_FREEZE_COST, streakFreezes: state.streakFreezes + 1 };
+}
+
+export interface DayProgress {
+  day: string;
+  xp: number;
+  goalMet: boolean;
+  frozen: boolean;
+}
+
+// Oldest first, ending today
+export function getRecentDays(state: GamificationState, now: number, timeZone: string, count: number): DayProgress[] {
+  const today = dayKey(now, timeZone);
+  return Array.from({ length: count }, (_, i) => {
+    const day = shiftDay(today, i - count + 1);
+    const xp = state.xpByDay[day] ?? 0;
+    return { day, xp, goalMet: xp >= state.dailyGoalXp, frozen: state.frozenDays.includes(day) };
+  });
+}
+
+// Longest run of consecutive streak days ever recorded
+export function getLongestStreak(state: GamificationState): number {
+  const days = Object.keys(state.xpByDay)
+    .filter(day => isStreakDay(state, day))
+    .concat(state.frozenDays)
+    .sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | undefined;
+  for (const day of days) {
+    if (day === previous) continue;
+    run = previous && shiftDay(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+  return longest;
+}
@@ -0,0 +1,42 @@
+import { SessionRecord, TargetLanguageCode } from '../types';
+import { Migration, readVersioned, removeRecord, scopedKey, writeVersioned } from './storage';
+
+export const HISTORY_KEY = 'history';
+
+// Bump when SessionRecord changes shape and add a migration from the previous version below.
+export const HISTORY_SCHEMA_VERSION = 2;
+
+// A v1 session record: its report card listed the coach's notes
+interface SessionRecordV1 {
+  report?: { corrections: { note: string; example?: string }[] };
+}
+
+// Keyed by the version being migrated FROM
+const HISTORY_MIGRATIONS: Record<number, Migration> = {
+  // Report cards listed the mistakes the coach noted; they now hold structured corrections
+  1: (records) => (records as SessionRecordV1[]).map(record => record.report ? {
+    ...record,
+    report: {
+      ...record.report,
+      corrections: record.report.corrections.map(c => ({
+        original: c.example ?? '',
+        corrected: '',
+        explanation: c.note,
+        category: 'other',
+      })),
+    },
+  } : record),
+};
+
+// Newest first, one history per target language
+export const loadHistory = async (profileId: string, language: TargetLanguageCode): Promise<SessionRecord[]> =>
+  (await readVersioned<SessionRecord[]>(scopedKey(HISTORY_KEY, profileId, language), HISTORY_SCHEMA_VERSION, HISTORY_MIGRATIONS)) ?? [];
+
+export const appendSession = async (profileId: string, language: TargetLanguageCode, record: SessionRecord): Promise<SessionRecord[]> => {
+  const history = [record, ...(await loadHistory(profileId, language))];
+  await writeVersioned(scopedKey(HISTORY_KEY, profileId, language), HISTORY_SCHEMA_VERSION, history);
+  return history;
+};
+
+export const clearHistory = (profileId: string, language: TargetLanguageCode): Promise<void> =>
+  removeRecord(scopedKey(HISTORY_KEY, profileId, language));
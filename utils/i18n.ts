@@ -0,0 +1,76 @@
+import en from '../locales/en-US.json';
+import ptPT from '../locales/pt-PT.json';
+import es from '../locales/es-ES.json';
+import fr from '../locales/fr-FR.json';
+import ar from '../locales/ar-SA.json';
+
+// UI text in the learner's native language. Catalogs live in locales/<LanguageOption.code>.json
+// as flat keys; a plural message is an object keyed by Intl.PluralRules category and picked by
+// the {count} parameter. Missing keys fall back to English.
+
+export type MessageKey = keyof typeof en;
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>>;
+export type Catalog = Partial<Record<MessageKey, string | PluralMessage>>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const FALLBACK_LOCALE = 'en-US';
+
+const CATALOGS: Record<string, Catalog> = {
+  'en-US': en,
+  'pt-PT': ptPT,
+  'es-ES': es,
+  'fr-FR': fr,
+  'ar-SA': ar,
+};
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+export const getTextDirection = (locale: string): 'ltr' | 'rtl' =>
+  RTL_LANGUAGES.includes(locale.split('-')[0]) ? 'rtl' : 'ltr';
+
+// The UI locale for screens shown before a profile is picked: the first of the browser's
+// languages with a catalog, matching on the language alone if the region differs (pt-BR → pt-PT)
+export function getPreferredLocale(languages: readonly string[] = navigator.languages ?? []): string {
+  const locales = Object.keys(CATALOGS);
+  for (const language of languages) {
+    const match = locales.find(l => l === language) ?? locales.find(l => l.split('-')[0] === language.split('-')[0]);
+    if (match) return match;
+  }
+  return FALLBACK_LOCALE;
+}
+
+const interpolate = (text: string, params: MessageParams) =>
+  text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+const translators = new Map<string, Translate>();
+
+// One translator per locale, shared by every component that renders in it
+export function getTranslator(locale: string): Translate {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+
+  const catalog = CATALOGS[locale] ?? {};
+  const pluralRules = new Intl.PluralRules(locale);
+  const fallbackRules = new Intl.PluralRules(FALLBACK_LOCALE);
+
+  const translate: Translate = (key, params = {}) => {
+    const own = catalog[key];
+    const message = own ?? (en as Catalog)[key] ?? key;
+    if (typeof message === 'string') return interpolate(message, params);
+    const count = Number(params.count ?? 0);
+    const category = (own ? pluralRules : fallbackRules).select(count);
+    return interpolate(message[category] ?? message.other ?? key, params);
+  };
+  translators.set(locale, translate);
+  return translate;
+}
+
+// A language's name as written in the UI language, e.g. "portugais" for pt in French
+export function formatLanguageName(code: string, locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
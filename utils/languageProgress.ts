@@ -0,0 +1,39 @@
+import { LanguageProgress, TargetLanguageCode, UserProfile } from '../types';
+
+// A learner can study several languages. The profile holds the progress of the language
+// being studied at the top level, where the rest of the app reads it; the other languages'
+// progress is parked in otherLanguages until the learner switches back.
+
+export const createLanguageProgress = (): LanguageProgress => ({
+  currentLevel: 'A1',
+  completedSubjects: [],
+  completedSteps: [],
+  pronunciationScores: {},
+  testedOutSubjects: [],
+  coachOverrides: {},
+});
+
+const pickLanguageProgress = (profile: UserProfile): LanguageProgress => ({
+  currentLevel: profile.currentLevel,
+  completedSubjects: profile.completedSubjects,
+  completedSteps: profile.completedSteps,
+  pronunciationScores: profile.pronunciationScores,
+  testedOutSubjects: profile.testedOutSubjects,
+  coachOverrides: profile.coachOverrides,
+});
+
+// A language studied for the first time starts from A1
+export function switchTargetLanguage(profile: UserProfile, code: TargetLanguageCode): UserProfile {
+  if (code === profile.targetLanguage) return profile;
+  const { [code]: restored, ...others } = profile.otherLanguages;
+  return {
+    ...profile,
+    ...(restored ?? createLanguageProgress()),
+    targetLanguage: code,
+    otherLanguages: { ...others, [profile.targetLanguage]: pickLanguageProgress(profile) },
+  };
+}
+
+// Languages the learner has started, the current one first
+export const getStudiedLanguages = (profile: UserProfile): TargetLanguageCode[] =>
+  [profile.targetLanguage, ...(Object.keys(profile.otherLanguages) as TargetLanguageCode[])];
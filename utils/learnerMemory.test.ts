@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { LearnerNote, VocabularyCard } from '../types';
+import { addLearnerNotes, createLearnerMemory, MAX_MEMORY_SUMMARY_CHARS, summarizeLearnerMemory } from './learnerMemory';
+import { createCard } from './srs';
+
+const NOW = Date.UTC(2026, 2, 10, 12);
+
+const error = (pattern: string, example?: string): LearnerNote => ({ kind: 'error', pattern, example });
+const strength = (pattern: string): LearnerNote => ({ kind: 'strength', pattern });
+
+const card = (term: string, fields: Partial<VocabularyCard> = {}): VocabularyCard => ({
+  ...createCard({ term, gloss: term, subjectId: 'a1-intro', subjectTitle: 'Intro' }, NOW),
+  ...fields,
+});
+
+describe('addLearnerNotes', () => {
+  it('counts repeats of a pattern regardless of case and spacing', () => {
+    let memory = addLearnerNotes(createLearnerMemory(), [error('Confuses ser and estar', 'sou cansado')], NOW);
+    memory = addLearnerNotes(memory, [error('confuses  ser and estar'), strength('Confuses ser and estar')], NOW + 1);
+    expect(memory.patterns).toEqual([
+      { kind: 'error', pattern: 'Confuses ser and estar', example: 'sou cansado', count: 2, firstSeenAt: NOW, lastSeenAt: NOW + 1 },
+      { kind: 'strength', pattern: 'Confuses ser and estar', count: 1, firstSeenAt: NOW + 1, lastSeenAt: NOW + 1 },
+    ]);
+  });
+
+  it('keeps the least relevant patterns out once the store is full', () => {
+    let memory = addLearnerNotes(createLearnerMemory(), [error('frequent'), error('frequent')], NOW);
+    memory = addLearnerNotes(memory, Array.from({ length: 45 }, (_, i) => error(`one-off ${i}`)), NOW + 1);
+    const errors = memory.patterns.filter(p => p.kind === 'error');
+    expect(errors).toHaveLength(40);
+    expect(errors[0].pattern).toBe('frequent');
+  });
+});
+
+describe('summarizeLearnerMemory', () => {
+  it('is empty for a new learner', () => {
+    expect(summarizeLearnerMemory(createLearnerMemory(), [], [])).toBe('');
+  });
+
+  it('lists mistakes, strengths, subjects and known and shaky words', () => {
+    const memory = addLearnerNotes(createLearnerMemory(), [error('drops articles', 'vou a praia'), strength('good nasal vowels')], NOW);
+    const deck = [
+      card('olá', { repetitions: 3, lastReviewedAt: NOW }),
+      card('obrigado', { repetitions: 0, lastReviewedAt: NOW }),
+      card('saco'),
+    ];
+    expect(summarizeLearnerMemory(memory, deck, ['Greetings'])).toBe([
+      'Recurring mistakes (times noticed):',
+      '- drops articles (1), e.g. "vou a praia"',
+      'Strengths:',
+      '- good nasal vowels',
+      'Completed subjects: Greetings',
+      'Known words (reuse freely, don\'t re-teach): olá',
+      'Shaky words (recycle them): obrigado',
+    ].join('\n'));
+  });
+
+  it('stays within 1,500 characters however much there is to remember', () => {
+    const notes = Array.from({ length: 10 }, (_, i) => error(`${'a very long and specific pattern '.repeat(6)}${i}`, 'x'.repeat(200)));
+    const memory = addLearnerNotes(createLearnerMemory(), [...notes, strength('clear pronunciation')], NOW);
+    const deck = Array.from({ length: 200 }, (_, i) => card(`palavra${i}`, { repetitions: 5, lastReviewedAt: NOW }));
+    const subjects = Array.from({ length: 50 }, (_, i) => `Subject ${i}`);
+    const summary = summarizeLearnerMemory(memory, deck, subjects);
+    expect(MAX_MEMORY_SUMMARY_CHARS).toBe(1500);
+    expect(summary.length).toBeLessThanOrEqual(MAX_MEMORY_SUMMARY_CHARS);
+    expect(summary.startsWith('Recurring mistakes')).toBe(true);
+  });
+
+  it('drops whole sections from the end before cutting text', () => {
+    const memory = addLearnerNotes(createLearnerMemory(), [error('mixes up por and para')], NOW);
+    const deck = Array.from({ length: 30 }, (_, i) => card(`${'palavra-muito-comprida-'.repeat(3)}${i}`, { repetitions: 5, lastReviewedAt: NOW }));
+    const summary = summarizeLearnerMemory(memory, deck, ['Greetings']);
+    expect(summary).toBe('Recurring mistakes (times noticed):\n- mixes up por and para (1)\nCompleted subjects: Greetings');
+  });
+});
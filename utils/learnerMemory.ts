@@ -0,0 +1,73 @@
+import { LearnerMemory, LearnerNote, LearnerPattern, VocabularyCard } from '../types';
+
+// What the coach remembers about a learner between sessions: recurring mistakes and strengths
+// reported through note_learner_pattern, plus what the deck and the map already show they know.
+// The summary fed into the lesson prompt is bounded, so a long learning history never crowds
+// out the lesson itself.
+
+// Patterns kept per kind; the least frequent and longest unseen are dropped first
+const MAX_STORED_PATTERNS = 40;
+const SUMMARY_ERRORS = 5;
+const SUMMARY_STRENGTHS = 3;
+const SUMMARY_KNOWN_WORDS = 30;
+const SUMMARY_SHAKY_WORDS = 8;
+const SUMMARY_SUBJECTS = 12;
+export const MAX_MEMORY_SUMMARY_CHARS = 1500;
+
+// Repetitions in a row after which a card's word counts as known
+const KNOWN_AFTER_REPETITIONS = 2;
+const SHAKY_BELOW_EASE = 2.0;
+
+export const createLearnerMemory = (): LearnerMemory => ({ patterns: [] });
+
+// The coach is asked to reuse the wording of known patterns, so equal text means the same pattern
+const normalizePattern = (pattern: string) => pattern.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const byRelevance = (a: LearnerPattern, b: LearnerPattern) => b.count - a.count || b.lastSeenAt - a.lastSeenAt;
+
+export function addLearnerNotes(memory: LearnerMemory, notes: LearnerNote[], now: number): LearnerMemory {
+  if (notes.length === 0) return memory;
+  const patterns = [...memory.patterns];
+  for (const note of notes) {
+    const key = normalizePattern(note.pattern);
+    const index = patterns.findIndex(p => p.kind === note.kind && normalizePattern(p.pattern) === key);
+    if (index === -1) {
+      patterns.push({ ...note, count: 1, firstSeenAt: now, lastSeenAt: now });
+    } else {
+      const existing = patterns[index];
+      patterns[index] = { ...existing, count: existing.count + 1, lastSeenAt: now, example: note.example ?? existing.example };
+    }
+  }
+  const keep = (kind: LearnerNote['kind']) => patterns.filter(p => p.kind === kind).sort(byRelevance).slice(0, MAX_STORED_PATTERNS);
+  return { patterns: [...keep('error'), ...keep('strength')] };
+}
+
+const listWithMore = (items: string[], limit: number) =>
+  items.slice(0, limit).join(', ') + (items.length > limit ? ` (+${items.length - limit} more)` : '');
+
+// Compact text for the lesson prompt; empty when there is nothing to remember yet
+export function summarizeLearnerMemory(memory: LearnerMemory, deck: VocabularyCard[], completedSubjectTitles: string[]): string {
+  const top = (kind: LearnerNote['kind'], limit: number) =>
+    memory.patterns.filter(p => p.kind === kind).sort(byRelevance).slice(0, limit);
+  const errors = top('error', SUMMARY_ERRORS);
+  const strengths = top('strength', SUMMARY_STRENGTHS);
+
+  const recentFirst = [...deck].sort((a, b) => (b.lastReviewedAt ?? b.addedAt) - (a.lastReviewedAt ?? a.addedAt));
+  const known = recentFirst.filter(c => c.repetitions >= KNOWN_AFTER_REPETITIONS).map(c => c.term);
+  const shaky = recentFirst
+    .filter(c => c.lastReviewedAt !== undefined && (c.repetitions === 0 || c.easeFactor < SHAKY_BELOW_EASE))
+    .map(c => c.term);
+
+  const sections: string[] = [];
+  if (errors.length) {
+    sections.push(`Recurring mistakes (times noticed):\n${errors.map(p => `- ${p.pattern} (${p.count})${p.example ? `, e.g. "${p.example}"` : ''}`).join('\n')}`);
+  }
+  if (strengths.length) sections.push(`Strengths:\n${strengths.map(p => `- ${p.pattern}`).join('\n')}`);
+  if (completedSubjectTitles.length) sections.push(`Completed subjects: ${listWithMore(completedSubjectTitles, SUMMARY_SUBJECTS)}`);
+  if (known.length) sections.push(`Known words (reuse freely, don't re-teach): ${listWithMore(known, SUMMARY_KNOWN_WORDS)}`);
+  if (shaky.length) sections.push(`Shaky words (recycle them): ${listWithMore(shaky, SUMMARY_SHAKY_WORDS)}`);
+
+  // Long patterns or examples could still overrun; drop whole sections from the end
+  while (sections.length > 1 && sections.join('\n').length > MAX_MEMORY_SUMMARY_CHARS) sections.pop();
+  return sections.join('\n').slice(0, MAX_MEMORY_SUMMARY_CHARS);
+}
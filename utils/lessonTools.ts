@@ -0,0 +1,326 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { CapturedWord, CardGrade, Correction, CORRECTION_CATEGORIES, LearnerNote, PlacementResult, PROFICIENCY_LEVELS, SessionPlan, StepAssessment } from '../types';
+
+// Tools the coach calls to report the learner's progress through a step.
+// Completion is gated on these calls rather than on how many turns were exchanged.
+
+export const LESSON_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'mark_objective_met',
+    description: 'Record that the learner has clearly demonstrated one of the step objectives. Only call this after the learner has shown it themselves, not after you explained it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        objective_index: { type: Type.INTEGER, description: 'Index of the objective as numbered in the system instructions.' },
+        evidence: { type: Type.STRING, description: 'What the learner said or did that demonstrates it.' },
+      },
+      required: ['objective_index'],
+    },
+  },
+  {
+    name: 'report_score',
+    description: "Report your current overall assessment of the learner's performance in this step.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.INTEGER, description: 'Performance from 0 (nothing achieved) to 100 (flawless).' },
+        feedback: { type: Type.STRING, description: 'One sentence on strengths and what to improve.' },
+      },
+      required: ['score'],
+    },
+  },
+  {
+    name: 'finish_step',
+    description: 'End the step. Use passed=true once every objective is met; passed=false if the learner cannot reach the objectives in this session.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        passed: { type: Type.BOOLEAN },
+        summary: { type: Type.STRING, description: 'Short summary of what the learner achieved.' },
+      },
+      required: ['passed'],
+    },
+  },
+];
+
+export const createAssessment = (objectives: string[]): StepAssessment => ({
+  objectives,
+  objectivesMet: [],
+  finished: false,
+  passed: false,
+});
+
+// Applies one tool call to the assessment and builds the response sent back to the model.
+// Returns null for calls that aren't lesson tools so other handlers can take them.
+export function applyLessonToolCall(
+  assessment: StepAssessment,
+  call: FunctionCall
+): { assessment: StepAssessment; response: Record<string, unknown> } | null {
+  const args = call.args ?? {};
+  const remaining = (met: number[]) =>
+    assessment.objectives.map((_, i) => i).filter(i => !met.includes(i));
+
+  switch (call.name) {
+    case 'mark_objective_met': {
+      const index = Number(args.objective_index);
+      if (!Number.isInteger(index) || index < 0 || index >= assessment.objectives.length) {
+        return { assessment, response: { error: `Unknown objective_index ${String(args.objective_index)}` } };
+      }
+      const objectivesMet = assessment.objectivesMet.includes(index)
+        ? assessment.objectivesMet
+        : [...assessment.objectivesMet, index].sort((a, b) => a - b);
+      return {
+        assessment: { ...assessment, objectivesMet },
+        response: { result: 'ok', remainingObjectives: remaining(objectivesMet) },
+      };
+    }
+    case 'report_score': {
+      const score = Math.round(Math.max(0, Math.min(100, Number(args.score))));
+      if (Number.isNaN(score)) {
+        return { assessment, response: { error: 'score must be a number from 0 to 100' } };
+      }
+      const feedback = typeof args.feedback === 'string' ? args.feedback : assessment.feedback;
+      return { assessment: { ...assessment, score, feedback }, response: { result: 'ok' } };
+    }
+    case 'finish_step': {
+      const unmet = remaining(assessment.objectivesMet);
+      // A pass needs every objective marked first, so the coach can't wave a learner through
+      if (args.passed === true && unmet.length > 0) {
+        return {
+          assessment,
+          response: { error: 'Objectives not yet met; keep practising them before passing the step.', remainingObjectives: unmet },
+        };
+      }
+      const summary = typeof args.summary === 'string' ? args.summary : undefined;
+      return {
+        assessment: { ...assessment, finished: true, passed: args.passed === true, summary },
+        response: { result: 'ok' },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// Vocabulary steps: the coach files each word it teaches into the learner's deck
+export const SAVE_VOCABULARY_WORD_DECLARATION: FunctionDeclaration = {
+  name: 'save_vocabulary_word',
+  description: "Save a word or short phrase in the target language that you have just taught to the learner's review deck. Call once per new word.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      term: { type: Type.STRING, description: 'The word or phrase in the language being taught, with correct accents.' },
+      gloss: { type: Type.STRING, description: "Its meaning in the learner's native language." },
+      example: { type: Type.STRING, description: 'A short example sentence using it, in the language being taught.' },
+    },
+    required: ['term', 'gloss'],
+  },
+};
+
+// Review sessions: the coach grades how well each due card was recalled
+export const GRADE_CARD_DECLARATION: FunctionDeclaration = {
+  name: 'grade_card',
+  description: 'Grade how well the learner recalled one review card.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      card_index: { type: Type.INTEGER, description: 'Index of the card as numbered in the system instructions.' },
+      quality: {
+        type: Type.INTEGER,
+        description: '0 = no idea, 1-2 = wrong but recognised the answer, 3 = correct with serious difficulty, 4 = correct after hesitation, 5 = instant and correct.',
+      },
+    },
+    required: ['card_index', 'quality'],
+  },
+};
+
+// Listening and speaking steps: the coach names the phrase it asked the learner to repeat,
+// so the learner's next spoken turn can be scored against it (see utils/pronunciation.ts)
+export const SET_TARGET_PHRASE_DECLARATION: FunctionDeclaration = {
+  name: 'set_target_phrase',
+  description: 'Call this every time you ask the learner to repeat or say a specific phrase in the language being taught, just before they answer.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      phrase: { type: Type.STRING, description: 'The exact phrase the learner should say, with accents.' },
+    },
+    required: ['phrase'],
+  },
+};
+
+// Placement test: the coach's CEFR estimate, as structured arguments rather than free text
+export const REPORT_PLACEMENT_DECLARATION: FunctionDeclaration = {
+  name: 'report_placement',
+  description: "Report the learner's estimated CEFR level once the placement conversation has shown it.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      level: { type: Type.STRING, enum: [...PROFICIENCY_LEVELS], description: 'Highest level the learner handled comfortably.' },
+      confidence: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+      rationale: { type: Type.STRING, description: 'One or two sentences on what the learner could and could not do.' },
+    },
+    required: ['level'],
+  },
+};
+
+// Lessons: recurring mistakes and strengths, kept in the learner's memory for later sessions
+// (see utils/learnerMemory.ts)
+export const NOTE_LEARNER_PATTERN_DECLARATION: FunctionDeclaration = {
+  name: 'note_learner_pattern',
+  description: 'Note a mistake the learner keeps making or a clear strength, so later lessons can build on it. Reuse the exact wording of a pattern from the learner memory when it matches.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: ['error', 'strength'] },
+      pattern: { type: Type.STRING, description: 'Short and general, in English, e.g. "confuses ser and estar".' },
+      example: { type: Type.STRING, description: 'What the learner said that shows it.' },
+    },
+    required: ['kind', 'pattern'],
+  },
+};
+
+// Lessons: each correction the coach makes, shown inline on the learner's message
+export const REPORT_CORRECTION_DECLARATION: FunctionDeclaration = {
+  name: 'report_correction',
+  description: 'Call this every time you correct something the learner said or typed, as you correct it.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      original: { type: Type.STRING, description: 'The wrong part of what the learner said, exactly as they said it.' },
+      corrected: { type: Type.STRING, description: 'The same part, corrected.' },
+      explanation: { type: Type.STRING, description: "One short sentence on why, in the learner's native language." },
+      category: { type: Type.STRING, enum: [...CORRECTION_CATEGORIES] },
+    },
+    required: ['original', 'corrected', 'explanation', 'category'],
+  },
+};
+
+// Everything the coach's tool calls build up over a session
+export interface SessionToolState {
+  assessment: StepAssessment;
+  capturedWords: CapturedWord[];
+  cardGrades: CardGrade[];
+  learnerNotes: LearnerNote[];
+  corrections: Correction[];
+  targetPhrase?: string; // Waiting for the learner's next spoken attempt
+  placement?: PlacementResult;
+}
+
+export const createSessionToolState = (objectives: string[]): SessionToolState => ({
+  assessment: createAssessment(objectives),
+  capturedWords: [],
+  cardGrades: [],
+  learnerNotes: [],
+  corrections: [],
+});
+
+export const getSessionTools = (plan: SessionPlan): FunctionDeclaration[] => {
+  if (plan.kind === 'review') {
+    return [GRADE_CARD_DECLARATION, ...LESSON_FUNCTION_DECLARATIONS.filter(d => d.name === 'finish_step')];
+  }
+  if (plan.kind === 'placement') return [REPORT_PLACEMENT_DECLARATION];
+  if (plan.kind === 'testOut') return LESSON_FUNCTION_DECLARATIONS;
+  const tools = [...LESSON_FUNCTION_DECLARATIONS, NOTE_LEARNER_PATTERN_DECLARATION, REPORT_CORRECTION_DECLARATION];
+  switch (plan.step.type) {
+    case 'vocabulary': return [...tools, SAVE_VOCABULARY_WORD_DECLARATION];
+    case 'listening':
+    case 'speaking':
+    case 'reading': return [...tools, SET_TARGET_PHRASE_DECLARATION];
+    default: return tools;
+  }
+};
+
+export function applySessionToolCall(
+  state: SessionToolState,
+  call: FunctionCall,
+  plan: SessionPlan
+): { state: SessionToolState; response: Record<string, unknown> } {
+  const args = call.args ?? {};
+
+  if (call.name === 'save_vocabulary_word' && plan.kind === 'lesson') {
+    const term = typeof args.term === 'string' ? args.term.trim() : '';
+    const gloss = typeof args.gloss === 'string' ? args.gloss.trim() : '';
+    if (!term || !gloss) return { state, response: { error: 'term and gloss are required' } };
+    const word: CapturedWord = {
+      term,
+      gloss,
+      example: typeof args.example === 'string' && args.example.trim() ? args.example.trim() : undefined,
+      subjectId: plan.subject.id,
+      subjectTitle: plan.subject.title,
+    };
+    return { state: { ...state, capturedWords: [...state.capturedWords, word] }, response: { result: 'saved' } };
+  }
+
+  if (call.name === 'note_learner_pattern' && plan.kind === 'lesson') {
+    const kind = args.kind === 'error' || args.kind === 'strength' ? args.kind : undefined;
+    const pattern = typeof args.pattern === 'string' ? args.pattern.trim() : '';
+    if (!kind || !pattern) return { state, response: { error: "kind ('error' or 'strength') and pattern are required" } };
+    const note: LearnerNote = {
+      kind,
+      pattern,
+      example: typeof args.example === 'string' && args.example.trim() ? args.example.trim() : undefined,
+    };
+    return { state: { ...state, learnerNotes: [...state.learnerNotes, note] }, response: { result: 'noted' } };
+  }
+
+  if (call.name === 'report_correction' && plan.kind === 'lesson') {
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    const original = text(args.original);
+    const corrected = text(args.corrected);
+    if (!original || !corrected) return { state, response: { error: 'original and corrected are required' } };
+    const correction: Correction = {
+      original,
+      corrected,
+      explanation: text(args.explanation),
+      category: CORRECTION_CATEGORIES.find(c => c === args.category) ?? 'other',
+    };
+    return { state: { ...state, corrections: [...state.corrections, correction] }, response: { result: 'ok' } };
+  }
+
+  if (call.name === 'set_target_phrase') {
+    const phrase = typeof args.phrase === 'string' ? args.phrase.trim() : '';
+    if (!phrase) return { state, response: { error: 'phrase is required' } };
+    return { state: { ...state, targetPhrase: phrase }, response: { result: 'ok' } };
+  }
+
+  if (call.name === 'report_placement' && plan.kind === 'placement') {
+    const level = PROFICIENCY_LEVELS.find(l => l === args.level);
+    if (!level) return { state, response: { error: `level must be one of ${PROFICIENCY_LEVELS.join(', ')}` } };
+    const confidence = ['low', 'medium', 'high'].includes(args.confidence as string)
+      ? args.confidence as PlacementResult['confidence']
+      : undefined;
+    const rationale = typeof args.rationale === 'string' ? args.rationale : undefined;
+    return {
+      state: {
+        ...state,
+        placement: { level, confidence, rationale },
+        // Reporting a level is what lets the learner continue
+        assessment: { ...state.assessment, finished: true, passed: true, summary: rationale },
+      },
+      response: { result: 'ok' },
+    };
+  }
+
+  if (call.name === 'grade_card' && plan.kind === 'review') {
+    const index = Number(args.card_index);
+    const card = plan.cards[index];
+    const quality = Number(args.quality);
+    if (!card || !Number.isInteger(index)) return { state, response: { error: `Unknown card_index ${String(args.card_index)}` } };
+    if (!Number.isFinite(quality) || quality < 0 || quality > 5) return { state, response: { error: 'quality must be 0-5' } };
+
+    // A graded card counts as that card's objective being met, so finish_step works as for lessons
+    const marked = applyLessonToolCall(state.assessment, { name: 'mark_objective_met', args: { objective_index: index } })!;
+    return {
+      state: {
+        ...state,
+        assessment: marked.assessment,
+        cardGrades: [...state.cardGrades.filter(g => g.cardId !== card.id), { cardId: card.id, quality: Math.round(quality) }],
+      },
+      response: marked.response,
+    };
+  }
+
+  const result = applyLessonToolCall(state.assessment, call);
+  if (!result) return { state, response: { error: `Unknown function ${call.name}` } };
+  return { state: { ...state, assessment: result.assessment }, response: result.response };
+}
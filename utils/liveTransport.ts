@@ -0,0 +1,49 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+
+// The subset of the Live API the lesson flow relies on. Anything that can open a
+// session, accept realtime input, client-content turns and tool responses, and push LiveServerMessages
+// back can drive LiveSession.
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (msg: LiveServerMessage) => void;
+  onclose: (e?: CloseEvent) => void;
+  onerror: (e: ErrorEvent | Error) => void;
+}
+
+export interface LiveConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+export interface LiveTransportSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  // Shown in logs and the session header so demos aren't mistaken for live lessons
+  readonly name: string;
+  readonly isOffline: boolean;
+  connect(params: LiveConnectParams): Promise<LiveTransportSession>;
+}
+
+// Real Gemini Live API over WebSocket
+export const createGeminiTransport = (apiKey: string): LiveTransport => ({
+  name: 'gemini',
+  isOffline: false,
+  connect: ({ model, config, callbacks }) => {
+    const ai = new GoogleGenAI({ apiKey });
+    return ai.live.connect({ model, config, callbacks });
+  },
+});
@@ -0,0 +1,24 @@
+import { WordLookupResult } from '../types';
+import { Migration, readVersioned, writeVersioned } from './storage';
+
+export const LOOKUP_CACHE_KEY = 'lookups';
+
+// Bump when the cached lookups change shape and add a migration from the previous version below.
+export const LOOKUP_CACHE_SCHEMA_VERSION = 1;
+
+// Keyed by the version being migrated FROM
+const LOOKUP_CACHE_MIGRATIONS: Record<number, Migration> = {};
+
+export interface CachedLookup extends WordLookupResult {
+  cachedAt: number; // epoch ms
+}
+
+// Shared by every profile: a word means the same thing whoever looks it up.
+// Keyed by `${targetLanguage}:${nativeLanguage}:${term}`.
+export type LookupCache = Record<string, CachedLookup>;
+
+export const loadLookupCache = async (): Promise<LookupCache> =>
+  (await readVersioned<LookupCache>(LOOKUP_CACHE_KEY, LOOKUP_CACHE_SCHEMA_VERSION, LOOKUP_CACHE_MIGRATIONS)) ?? {};
+
+export const saveLookupCache = (cache: LookupCache): Promise<void> =>
+  writeVersioned(LOOKUP_CACHE_KEY, LOOKUP_CACHE_SCHEMA_VERSION, cache);
@@ -0,0 +1,21 @@
+import { LearnerMemory, TargetLanguageCode } from '../types';
+import { createLearnerMemory } from './learnerMemory';
+import { Migration, readVersioned, removeRecord, scopedKey, writeVersioned } from './storage';
+
+export const MEMORY_KEY = 'memory';
+
+// Bump when LearnerMemory changes shape and add a migration from the previous version below.
+export const MEMORY_SCHEMA_VERSION = 1;
+
+// Keyed by the version being migrated FROM
+const MEMORY_MIGRATIONS: Record<number, Migration> = {};
+
+// One learner memory per target language
+export const loadLearnerMemory = async (profileId: string, language: TargetLanguageCode): Promise<LearnerMemory> =>
+  (await readVersioned<LearnerMemory>(scopedKey(MEMORY_KEY, profileId, language), MEMORY_SCHEMA_VERSION, MEMORY_MIGRATIONS)) ?? createLearnerMemory();
+
+export const saveLearnerMemory = (profileId: string, language: TargetLanguageCode, memory: LearnerMemory): Promise<void> =>
+  writeVersioned(scopedKey(MEMORY_KEY, profileId, language), MEMORY_SCHEMA_VERSION, memory);
+
+export const clearLearnerMemory = (profileId: string, language: TargetLanguageCode): Promise<void> =>
+  removeRecord(scopedKey(MEMORY_KEY, profileId, language));
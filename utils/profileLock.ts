@@ -0,0 +1,23 @@
+// Per-profile PINs keep siblings and classmates out of each other's progress on a shared
+// tablet. They are a courtesy lock, not security: anyone with dev tools can read the store.
+// Only a salted SHA-256 of the PIN is kept, stored as "<salt>:<hash>".
+
+export const PIN_LENGTH = 4;
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const digest = async (salt: string, pin: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+export async function hashPin(pin: string): Promise<string> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(8)).buffer);
+  return `${salt}:${await digest(salt, pin)}`;
+}
+
+export async function verifyPin(pin: string, pinHash: string): Promise<boolean> {
+  const [salt, hash] = pinHash.split(':');
+  return (await digest(salt, pin)) === hash;
+}
@@ -0,0 +1,78 @@
+import { TARGET_LANGUAGE_CODES, UserProfile } from '../types';
+import { createGamificationState, getLocalTimeZone } from './gamification';
+import { clearDeck, DECK_KEY } from './deckStorage';
+import { clearHistory, HISTORY_KEY } from './historyStorage';
+import { clearLearnerMemory } from './memoryStorage';
+import { Migration, moveRecord, readVersioned, removeRecord, scopedKey, writeVersioned } from './storage';
+
+const PROFILE_KEY = 'profile';
+const PROFILE_IDS_KEY = 'profiles';
+
+// Bump when UserProfile changes shape and add a migration from the previous version below.
+export const PROFILE_SCHEMA_VERSION = 8;
+
+// A profile as an older build saved it; each migration only adds fields
+type StoredProfile = Record<string, unknown>;
+
+// Keyed by the version being migrated FROM. Step ID renames belong here too,
+// e.g. rewriting entries in completedSteps when a subject or step is renamed.
+const PROFILE_MIGRATIONS: Record<number, Migration> = {
+  // v2: inputMode added; existing learners were all voice users
+  1: (data) => ({ ...(data as StoredProfile), inputMode: 'voice' }),
+  // v3: per-step pronunciation scores
+  2: (data) => ({ ...(data as StoredProfile), pronunciationScores: {} }),
+  // v4: subjects skipped by the placement test
+  3: (data) => ({ ...(data as StoredProfile), testedOutSubjects: [] }),
+  // v5: XP, gems and streak
+  4: (data) => ({ ...(data as StoredProfile), timeZone: getLocalTimeZone(), gamification: createGamificationState() }),
+  // v6: learner-chosen coaches per step type
+  5: (data) => ({ ...(data as StoredProfile), coachOverrides: {} }),
+  // v7: several profiles per device, each with an avatar
+  6: (data) => ({ ...(data as StoredProfile), avatar: '🦊' }),
+  // v8: several target languages; everything so far was European Portuguese
+  7: (data) => ({ ...(data as StoredProfile), targetLanguage: 'pt-PT', otherLanguages: {} }),
+};
+
+export const PROFILE_IDS_SCHEMA_VERSION = 1;
+const PROFILE_IDS_MIGRATIONS: Record<number, Migration> = {};
+
+export const createProfileId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Profiles in the order they were added. Builds from before profiles had IDs kept a single
+// learner's data under unscoped keys; that learner becomes the first profile.
+export async function loadProfileIds(): Promise<string[]> {
+  let ids = await readVersioned<string[]>(PROFILE_IDS_KEY, PROFILE_IDS_SCHEMA_VERSION, PROFILE_IDS_MIGRATIONS);
+  if (!ids) {
+    if (!(await readVersioned<UserProfile>(PROFILE_KEY, PROFILE_SCHEMA_VERSION, PROFILE_MIGRATIONS))) return [];
+    ids = [createProfileId()];
+    for (const key of [PROFILE_KEY, HISTORY_KEY, DECK_KEY]) await moveRecord(key, scopedKey(key, ids[0]));
+    await saveProfileIds(ids);
+  }
+  // Histories and decks saved before they were kept per target language are European Portuguese
+  for (const id of ids) {
+    for (const key of [HISTORY_KEY, DECK_KEY]) await moveRecord(scopedKey(key, id), scopedKey(key, id, 'pt-PT'));
+  }
+  return ids;
+}
+
+export const saveProfileIds = (ids: string[]): Promise<void> =>
+  writeVersioned(PROFILE_IDS_KEY, PROFILE_IDS_SCHEMA_VERSION, ids);
+
+export const loadProfile = (profileId: string): Promise<UserProfile | undefined> =>
+  readVersioned<UserProfile>(scopedKey(PROFILE_KEY, profileId), PROFILE_SCHEMA_VERSION, PROFILE_MIGRATIONS);
+
+export const saveProfile = (profileId: string, profile: UserProfile): Promise<void> =>
+  writeVersioned(scopedKey(PROFILE_KEY, profileId), PROFILE_SCHEMA_VERSION, profile);
+
+export const clearProfile = (profileId: string): Promise<void> => removeRecord(scopedKey(PROFILE_KEY, profileId));
+
+// Deletes the profile and everything stored for it
+export async function removeProfile(profileId: string): Promise<string[]> {
+  const ids = (await loadProfileIds()).filter(id => id !== profileId);
+  await saveProfileIds(ids);
+  await Promise.all([
+    clearProfile(profileId),
+    ...TARGET_LANGUAGE_CODES.flatMap(code => [clearHistory(profileId, code), clearDeck(profileId, code), clearLearnerMemory(profileId, code)]),
+  ]);
+  return ids;
+}
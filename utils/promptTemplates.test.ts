@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { LearningMode, STEP_TYPES, StepType, UserProfile } from '../types';
+import { getCurriculum, getCharacterForStep, getTargetLanguage, getStepObjectives, LANGUAGES } from '../constants';
+import { createGamificationState } from './gamification';
+import { createLanguageProgress } from './languageProgress';
+import { composeLessonPrompt, getLessonPromptVersion, LessonPromptContext } from './promptTemplates';
+
+const profile = (mode: LearningMode): UserProfile => ({
+  name: 'Alex',
+  avatar: '🦊',
+  nativeLanguage: LANGUAGES[0],
+  targetLanguage: 'pt-PT',
+  mode,
+  inputMode: 'voice',
+  ...createLanguageProgress(),
+  timeZone: 'Europe/Lisbon',
+  gamification: createGamificationState(),
+  otherLanguages: {},
+});
+
+const context = (mode: LearningMode, stepType: StepType): LessonPromptContext => {
+  const language = getTargetLanguage('pt-PT');
+  const level = getCurriculum('pt-PT')[0];
+  const subject = level.subjects[0];
+  const step = { ...subject.steps[0], type: stepType };
+  return {
+    profile: profile(mode),
+    language,
+    character: getCharacterForStep(stepType, language.code, {}),
+    level,
+    subject,
+    step,
+    objectives: getStepObjectives(step),
+    lessonContent: 'Vocabulary: olá (hello), bom dia (good morning)',
+    memory: '',
+  };
+};
+
+describe('composeLessonPrompt', () => {
+  for (const mode of ['assisted', 'immersion'] as const) {
+    for (const stepType of STEP_TYPES) {
+      it(`renders the ${stepType} prompt in ${mode} mode`, () => {
+        expect(composeLessonPrompt(context(mode, stepType))).toMatchSnapshot();
+      });
+    }
+  }
+
+  it('rebuilds the prompt a session recorded', () => {
+    const lesson = context('immersion', 'reading');
+    const recorded = getLessonPromptVersion('immersion', 'reading');
+    expect(composeLessonPrompt(lesson, recorded)).toBe(composeLessonPrompt(lesson));
+  });
+
+  it('renders only the templates a recorded version names', () => {
+    const prompt = composeLessonPrompt(context('assisted', 'grammar'), 'persona@1 protocol-assisted@1 step-grammar@1');
+    expect(prompt).toContain('STEP INSTRUCTIONS (GRAMMAR)');
+    expect(prompt).not.toContain('LEVEL:');
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(() => composeLessonPrompt(context('assisted', 'grammar'), 'persona@99')).toThrow('persona@99');
+  });
+});
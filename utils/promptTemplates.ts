@@ -0,0 +1,282 @@
+import { Character, LearningMode, Level, ProficiencyLevel, Step, StepType, Subject, TargetLanguage, UserProfile } from '../types';
+
+// The coach's system prompt for a lesson step, composed from small templates: persona,
+// language protocol (assisted or immersion), level, learner memory, input, a module per step
+// type, assessment, corrections and session start. Each template has a version. To reword one,
+// add a new version next to the old one instead of editing it in place. Sessions save the
+// versions they ran with (SessionRecord.promptVersion), so a change in how the coach behaves
+// can be traced to the prompt change, rolled back with PINNED_VERSIONS and the old prompt rebuilt.
+
+export interface LessonPromptContext {
+  profile: UserProfile;
+  language: TargetLanguage;
+  character: Character;
+  level: Level;
+  subject: Subject;
+  step: Step;
+  objectives: string[];
+  lessonContent: string;
+  memory: string; // summarizeLearnerMemory output; empty for a new learner
+}
+
+// Resolved once per prompt so the templates don't each branch on the mode
+interface PromptVars extends LessonPromptContext {
+  native: string;
+  target: string;
+  explainIn: string; // The language explanations are given in, which depends on the mode
+}
+
+interface PromptTemplate {
+  id: string;
+  version: number;
+  render: (vars: PromptVars) => string;
+}
+
+const PERSONA: PromptTemplate = {
+  id: 'persona',
+  version: 1,
+  render: ({ character, language, profile }) => `
+🧠 SYSTEM PROMPT — LINGUOFLOW COACH (${character.name})
+
+ROLE:
+You are ${character.name}, a friendly AI language tutor for ${language.name} (${language.region}).
+Your personality is: ${character.persona}
+Stay in character: your tone, pace and humour follow this personality throughout the lesson.
+User's Native Language: ${profile.nativeLanguage.name} (${profile.nativeLanguage.code}).
+VARIETY: ${language.dialectNotes}`,
+};
+
+const ASSISTED_PROTOCOL: PromptTemplate = {
+  id: 'protocol-assisted',
+  version: 1,
+  render: ({ native, target, language }) => `
+⚠️ STRICT LANGUAGE PROTOCOL (ASSISTED MODE):
+1. **EXPLANATIONS IN NATIVE LANGUAGE**: You MUST use ${native} for ALL greetings, instructions, praise, explanations, corrections and small talk.
+2. **TARGET LANGUAGE (${target.toUpperCase()})**: Use ${target} ONLY for the specific words or phrases the user needs to learn or repeat.
+3. **NO MIXING**: Do not mix languages randomly. Format: [Explanation in ${native}] -> [${target} Phrase].
+
+Example (If User is English):
+✅ "Hello! Today we will learn to say 'Good morning'. Listen: '${language.phrases.goodMorning}'."
+❌ "${language.phrases.hello}! Today we learn ${language.phrases.goodMorning}." (Bad mixing)`,
+};
+
+const IMMERSION_PROTOCOL: PromptTemplate = {
+  id: 'protocol-immersion',
+  version: 1,
+  render: ({ native, target }) => `
+⚠️ STRICT LANGUAGE PROTOCOL (IMMERSION MODE):
+1. **ONLY ${target.toUpperCase()}**: Greetings, instructions, praise, explanations and corrections are ALL in ${target}, kept at or just below the learner's level.
+2. **EXPLAIN WITHOUT TRANSLATING**: Make meaning clear with simpler words, synonyms, opposites, examples and context. Do not translate into ${native}.
+3. **LAST RESORT**: If the learner is still lost after two different explanations, you may give a single-word ${native} gloss, then carry on in ${target}.
+4. **LEARNER SWITCHES LANGUAGE**: If the learner answers in ${native}, reply in simple ${target} and model how they could have said it.`,
+};
+
+// How to pitch speech and corrections at each CEFR level
+const LEVEL_GUIDANCE: Record<ProficiencyLevel, string> = {
+  A1: 'Speak slowly in short, simple sentences with high-frequency words. Introduce one new idea at a time and repeat key words often. Accept one-word answers at first, then build them into phrases.',
+  A2: 'Use simple sentences about familiar, everyday topics. Recycle A1 vocabulary and bring in common past and future forms gradually. Expect short connected answers.',
+  B1: 'Speak at a natural but clear pace. Expect answers of a few sentences and ask for reasons and opinions. Correct errors that get in the way of meaning.',
+  B2: 'Speak at natural speed with some idiomatic language. Push for detail, argument and hypotheticals, and correct subtler errors of form and register.',
+  C1: 'Talk as with a fluent peer. Focus on nuance, register, idiom and precision, and correct only what a native speaker would notice.',
+};
+
+const LEVEL: PromptTemplate = {
+  id: 'level',
+  version: 1,
+  render: ({ level }) => `
+LEVEL: ${level.title}
+${LEVEL_GUIDANCE[level.id]}`,
+};
+
+const MEMORY: PromptTemplate = {
+  id: 'memory',
+  version: 1,
+  render: ({ memory }) => `
+LEARNER MEMORY (from earlier sessions):
+${memory || 'Nothing recorded yet.'}
+- Work the recurring mistakes and shaky words into this lesson naturally, and praise the learner when they get them right.
+- Don't re-teach known words or completed subjects; reuse them as building blocks instead.
+- When you notice a mistake the learner keeps making, or a clear strength, call note_learner_pattern with a short, general pattern written in English and what they said. If it matches a pattern listed above, reuse that exact wording.
+- This memory is for you only: never read it out or mention it to the learner.`,
+};
+
+const INPUT: PromptTemplate = {
+  id: 'input',
+  version: 1,
+  render: ({ profile }) => `
+INPUT:
+${profile.inputMode === 'text'
+  ? `The learner is TYPING (no microphone). Ask them to type answers instead of repeating aloud, and correct spelling and accents as you would pronunciation.`
+  : `The learner may speak or type. Treat typed messages exactly like spoken turns.`}`,
+};
+
+// Shared wording for the steps that score the learner's pronunciation
+const targetPhraseRule = (target: string, action: string) =>
+  `- Each time you ask the learner to ${action} a ${target} phrase, call set_target_phrase with that exact phrase first. The app scores their pronunciation.`;
+
+const STEP_MODULES: Record<StepType, PromptTemplate> = {
+  vocabulary: {
+    id: 'step-vocabulary',
+    version: 1,
+    render: ({ target, native, explainIn }) => `
+STEP INSTRUCTIONS (VOCABULARY):
+- Teach 3-5 new words from the lesson content, one at a time.
+- Say each word in ${target}, explain its meaning in ${explainIn}, and have the learner repeat it.
+- Then ask the learner to use the word in a short phrase, and recycle earlier words as you go.
+- Each time you teach a new word or phrase, call save_vocabulary_word with the ${target} term, its meaning in ${native} and a short example sentence.`,
+  },
+  listening: {
+    id: 'step-listening',
+    version: 1,
+    render: ({ target, explainIn }) => `
+STEP INSTRUCTIONS (LISTENING):
+- Speak a clear ${target} sentence, a little slower than natural speed.
+- Ask the learner in ${explainIn} to repeat it, then check they understood with a simple question about it.
+- Build up from single sentences to two or three linked ones as the learner copes.
+${targetPhraseRule(target, 'repeat or say')}`,
+  },
+  grammar: {
+    id: 'step-grammar',
+    version: 1,
+    render: ({ target, explainIn }) => `
+STEP INSTRUCTIONS (GRAMMAR):
+- Explain the rule in ${explainIn}, briefly, with 2-3 ${target} examples.
+- Guide the learner through one example together, then give a gap-fill or transformation to try alone.
+- Finally ask for an original sentence that uses the rule, and correct it.`,
+  },
+  speaking: {
+    id: 'step-speaking',
+    version: 1,
+    render: ({ target, explainIn }) => `
+STEP INSTRUCTIONS (SPEAKING):
+- Run a realistic roleplay built on the subject. Set the scene in ${explainIn}, then play your role in ${target}.
+- If the learner gets stuck, help in ${explainIn}, then return to the roleplay.
+- Keep your turns short so the learner does most of the talking.
+${targetPhraseRule(target, 'repeat or say')}`,
+  },
+  reading: {
+    id: 'step-reading',
+    version: 1,
+    render: ({ target, explainIn, profile }) => `
+STEP INSTRUCTIONS (READING):
+- Write a short ${target} text (3-6 sentences at the learner's level) that uses the lesson content, and present it ${profile.inputMode === 'text' ? 'in writing' : 'by reading it aloud slowly once'}.
+- Ask the learner to read it ${profile.inputMode === 'text' ? 'carefully' : 'aloud, sentence by sentence'}.
+- Then ask one or two comprehension questions, and ask them to explain a key phrase in ${explainIn}.
+${targetPhraseRule(target, 'read aloud')}`,
+  },
+  challenge: {
+    id: 'step-challenge',
+    version: 1,
+    render: ({ target, explainIn }) => `
+STEP INSTRUCTIONS (CHALLENGE):
+- Run a brisk quick-fire quiz over the whole subject: translations, gap-fills, quick questions and a mini roleplay in ${target}.
+- Do not teach new material. After each answer say in ${explainIn} whether it was right, give the correct form if not, and move on.
+- Keep a friendly sense of pace and tell the learner how many they got right at the end.`,
+  },
+};
+
+const ASSESSMENT: PromptTemplate = {
+  id: 'assessment',
+  version: 1,
+  render: ({ objectives }) => `
+ASSESSMENT (use your tools; the learner cannot finish the step without them):
+Step objectives:
+${objectives.map((o, i) => `${i}. ${o}`).join('\n')}
+- Call mark_objective_met with the objective's number as soon as the learner demonstrates it themselves.
+- Call report_score (0-100) whenever your overall impression of the learner changes noticeably.
+- When every objective is met, call finish_step with passed=true and tell the learner they can complete the lesson.
+- If the learner clearly cannot reach the objectives today, call finish_step with passed=false and encourage them to try again.
+- Never mention the tools or objective numbers to the learner.`,
+};
+
+const CORRECTIONS: PromptTemplate = {
+  id: 'corrections',
+  version: 1,
+  render: ({ native }) => `
+CORRECTIONS (shown on the learner's message in the transcript):
+- Whenever you correct something the learner said or typed, also call report_correction with the wrong part exactly as they said it, the corrected version, a one-sentence explanation in ${native}, and a category.
+- Report each mistake once, and only real mistakes, not stylistic preferences.
+- The explanation is written for the transcript. Correct the learner out loud as usual, following the language protocol.`,
+};
+
+const SESSION_START: PromptTemplate = {
+  id: 'start',
+  version: 1,
+  render: ({ level, subject, step, lessonContent, explainIn, target }) => `
+CONTEXT:
+Level: ${level.id} | Subject: ${subject.title} | Step: ${step.title} (${step.type})
+${lessonContent}
+STARTING THE SESSION:
+1. The app opens the session with a "[LESSON START]" message. It is not spoken by the learner; do not mention it.
+2. Immediately welcome the learner (in ${explainIn}) to the "${subject.title}" lesson in one sentence.
+3. Then introduce the first ${target} concept.
+
+GOAL:
+Help the user complete the "${step.title}" step confidently. Be patient and encouraging.`,
+};
+
+// Every version of every template. Older versions stay here so recorded prompts can be rebuilt.
+const TEMPLATES: PromptTemplate[] = [
+  PERSONA,
+  ASSISTED_PROTOCOL,
+  IMMERSION_PROTOCOL,
+  LEVEL,
+  MEMORY,
+  INPUT,
+  ...Object.values(STEP_MODULES),
+  ASSESSMENT,
+  CORRECTIONS,
+  SESSION_START,
+];
+
+// Template id → version to use instead of the latest, to roll a prompt change back
+const PINNED_VERSIONS: Record<string, number> = {};
+
+const findTemplate = (id: string, version: number): PromptTemplate => {
+  const template = TEMPLATES.find(t => t.id === id && t.version === version);
+  if (!template) throw new Error(`Unknown prompt template ${id}@${version}`);
+  return template;
+};
+
+const currentTemplate = (id: string): PromptTemplate => {
+  const pinned = PINNED_VERSIONS[id];
+  if (pinned !== undefined) return findTemplate(id, pinned);
+  return TEMPLATES.filter(t => t.id === id).reduce((latest, t) => t.version > latest.version ? t : latest);
+};
+
+const selectTemplates = (mode: LearningMode, stepType: StepType): PromptTemplate[] => [
+  'persona',
+  mode === 'immersion' ? 'protocol-immersion' : 'protocol-assisted',
+  'level',
+  'memory',
+  'input',
+  `step-${stepType}`,
+  'assessment',
+  'corrections',
+  'start',
+].map(currentTemplate);
+
+// The templates named in a recorded prompt version, in the order they were composed
+const parsePromptVersion = (promptVersion: string): PromptTemplate[] =>
+  promptVersion.trim().split(/\s+/).map(entry => {
+    const [id, version] = entry.split('@');
+    return findTemplate(id, Number(version));
+  });
+
+// e.g. "persona@1 protocol-assisted@1 level@1 memory@1 input@1 step-reading@1 assessment@1 corrections@1 start@1"
+export const getLessonPromptVersion = (mode: LearningMode, stepType: StepType): string =>
+  selectTemplates(mode, stepType).map(t => `${t.id}@${t.version}`).join(' ');
+
+// Pass a recorded promptVersion to rebuild the prompt a session ran with; otherwise the current templates are used
+export function composeLessonPrompt(context: LessonPromptContext, promptVersion?: string): string {
+  const native = context.profile.nativeLanguage.name;
+  const target = context.language.languageName;
+  const vars: PromptVars = {
+    ...context,
+    native,
+    target,
+    explainIn: context.profile.mode === 'immersion' ? `simple ${target}` : native,
+  };
+  const templates = promptVersion ? parsePromptVersion(promptVersion) : selectTemplates(context.profile.mode, context.step.type);
+  return `${templates.map(t => t.render(vars)).join('\n')}\n`;
+}
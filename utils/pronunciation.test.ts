@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { getPhoneticHint, scorePronunciation, toPhonemes } from './pronunciation';
+
+const ipa = (word: string) => toPhonemes(word).join('');
+
+describe('toPhonemes', () => {
+  it('reduces unstressed final vowels', () => {
+    expect(ipa('dia')).toBe('diɐ');
+    expect(ipa('tudo')).toBe('tudu');
+    expect(ipa('tarde')).toBe('taɾdɨ');
+    expect(ipa('obrigada')).toBe('ɔbɾigadɐ');
+  });
+
+  it('keeps the stressed vowel full, using the accent or penultimate stress', () => {
+    expect(ipa('olá')).toBe('ɔla');
+    expect(ipa('café')).toBe('kɐfɛ');
+    expect(ipa('maria')).toBe('mɐɾiɐ');
+    expect(ipa('fazer')).toBe('fɐzeɾ');
+  });
+
+  it('splits vowel pairs into syllables but keeps falling diphthongs together', () => {
+    expect(ipa('rua')).toBe('ʁuɐ');
+    expect(ipa('boa')).toBe('boɐ');
+    expect(ipa('noite')).toBe('noitɨ');
+    expect(ipa('muito')).toBe('muitu');
+  });
+
+  it('reduces every vowel of unstressed function words', () => {
+    expect(ipa('que')).toBe('kɨ');
+    expect(ipa('de')).toBe('dɨ');
+    expect(ipa('o')).toBe('u');
+  });
+
+  it('handles nasal vowels and diphthongs', () => {
+    expect(ipa('bom')).toBe('bõ');
+    expect(ipa('não')).toBe('nɐ̃w̃');
+    expect(ipa('também')).toBe('tɐ̃bɐ̃j̃');
+  });
+});
+
+describe('getPhoneticHint', () => {
+  it('joins the words of a European Portuguese phrase', () => {
+    expect(getPhoneticHint('Bom dia!', 'pt-PT')).toBe('/bõ diɐ/');
+  });
+
+  it('has no hint for languages without a phonemizer', () => {
+    expect(getPhoneticHint('Buenos días', 'es-ES')).toBeUndefined();
+  });
+});
+
+describe('scorePronunciation', () => {
+  it('does not mark down spellings that sound the same', () => {
+    expect(scorePronunciation('Bom dia', 'bon dia').score).toBe(100);
+  });
+
+  it('scores a skipped word as zero', () => {
+    const result = scorePronunciation('Olá, bom dia', 'olá dia');
+    expect(result.words.map(w => w.score)).toEqual([100, 0, 100]);
+  });
+});
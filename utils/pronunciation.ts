@@ -0,0 +1,209 @@
+import { PronunciationResult, TargetLanguageCode } from '../types';
+
+// Scores a learner's attempt at a target phrase from the speech transcription.
+// The transcriber hears sounds and writes words, so comparing spelling alone punishes
+// learners for the transcriber's choices ("bon dia" for "bom dia"). Both sides are
+// first turned into a rough European Portuguese phoneme string (nasal vowels,
+// unstressed vowel reduction, sibilant rules) and compared sound by sound. Other target
+// languages have no phoneme rules yet and are compared letter by letter.
+
+// Words scoring below this are highlighted as mispronounced
+export const MISPRONOUNCED_BELOW = 70;
+
+const VOWELS = 'aeiouáéíóúâêôãõàü';
+const isVowel = (c: string | undefined) => !!c && VOWELS.includes(c);
+const ACCENTED = 'áéíóúâêôãõ';
+
+// Lowercase, drop punctuation, keep accents (they change the sound)
+export const normalizePhrase = (text: string): string[] =>
+  text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .split(/[\s-]+/)
+    .map(w => w.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+
+// Index of the stressed vowel group, using the written accent or the default
+// penultimate/final stress rules
+const findStressedNucleus = (word: string, nuclei: number[][]): number => {
+  const accented = nuclei.findIndex(group => group.some(i => ACCENTED.includes(word[i])));
+  if (accented !== -1) return accented;
+  if (nuclei.length < 2) return 0;
+  return /([aeo]s?|[ae]m|ens)$/.test(word) ? nuclei.length - 2 : nuclei.length - 1;
+};
+
+// Vowel groups, one per syllable: a vowel plus an unaccented i or u gliding off it (pai, meu,
+// muito). Other vowel pairs are separate syllables (di-a, bo-a, sa-í-da). The u in
+// que/qui/gue/gui is silent and not a vowel.
+const findNuclei = (word: string): number[][] => {
+  const nuclei: number[][] = [];
+  let current: number[] = [];
+  for (let i = 0; i < word.length; i++) {
+    const silentU = word[i] === 'u' && (word[i - 1] === 'q' || word[i - 1] === 'g') && 'eiéí'.includes(word[i + 1] ?? '');
+    if (isVowel(word[i]) && !silentU) {
+      const isGlide = current.length === 1 && (word[i] === 'i' || word[i] === 'u');
+      if (current.length && !isGlide) {
+        nuclei.push(current);
+        current = [];
+      }
+      current.push(i);
+    } else if (current.length) {
+      nuclei.push(current);
+      current = [];
+    }
+  }
+  if (current.length) nuclei.push(current);
+  return nuclei;
+};
+
+const ORAL_VOWEL: Record<string, string> = {
+  á: 'a', à: 'a', â: 'ɐ', é: 'ɛ', ê: 'e', í: 'i', ó: 'ɔ', ô: 'o', ú: 'u', ü: 'u',
+};
+const NASAL_VOWEL: Record<string, string> = { a: 'ɐ̃', e: 'ẽ', i: 'ĩ', o: 'õ', u: 'ũ' };
+
+// Unstressed vowels reduce in European Portuguese: a → ɐ, e → ɨ, o → u
+const reduce = (vowel: string) => ({ a: 'ɐ', e: 'ɨ', o: 'u' } as Record<string, string>)[vowel] ?? vowel;
+
+// Articles, pronouns and prepositions that lean on the next word and carry no stress (que → kɨ)
+const UNSTRESSED_WORDS = new Set([
+  'a', 'as', 'o', 'os', 'da', 'das', 'do', 'dos', 'na', 'nas', 'no', 'nos',
+  'de', 'que', 'se', 'me', 'te', 'lhe', 'lhes', 'por',
+]);
+
+export function toPhonemes(word: string): string[] {
+  const w = word.normalize('NFC').toLowerCase();
+  const nuclei = findNuclei(w);
+  const stressed = new Set(UNSTRESSED_WORDS.has(w) ? [] : nuclei[findStressedNucleus(w, nuclei)] ?? []);
+  const out: string[] = [];
+
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const next = w[i + 1];
+    const prev = w[i - 1];
+    const frontNext = next !== undefined && 'eiéêí'.includes(next);
+
+    // Nasal diphthongs
+    if ((c === 'ã' || c === 'â') && next === 'o') { out.push('ɐ̃', 'w̃'); i++; continue; }
+    if (c === 'ã' && next === 'e') { out.push('ɐ̃', 'j̃'); i++; continue; }
+    if (c === 'õ' && next === 'e') { out.push('õ', 'j̃'); i++; continue; }
+    if ((c === 'e' || c === 'é') && next === 'm' && i + 2 === w.length) { out.push('ɐ̃', 'j̃'); i++; continue; } // bem, também
+    if (c === 'a' && next === 'm' && i + 2 === w.length) { out.push('ɐ̃', 'w̃'); i++; continue; } // falam
+    if (c === 'ã') { out.push('ɐ̃'); continue; }
+    if (c === 'õ') { out.push('õ'); continue; }
+
+    if (isVowel(c)) {
+      if (c === 'u' && (prev === 'q' || prev === 'g') && frontNext) continue; // silent u
+      const base = ORAL_VOWEL[c] ?? c;
+      // Vowel + m/n closing the syllable is a nasal vowel (bom, tempo, cinco)
+      if ((next === 'm' || next === 'n') && !isVowel(w[i + 2]) && w[i + 2] !== 'h') {
+        out.push(NASAL_VOWEL[base] ?? NASAL_VOWEL[c] ?? base);
+        i++;
+        continue;
+      }
+      if (stressed.has(i) || ORAL_VOWEL[c]) out.push(base);
+      // A word-initial o before a consonant stays open when unstressed (olá, obrigado)
+      else if (i === 0 && c === 'o' && nuclei.length > 1 && !isVowel(next)) out.push('ɔ');
+      else out.push(reduce(base));
+      continue;
+    }
+
+    switch (c) {
+      case 'h': break; // silent unless part of lh/nh/ch, handled below
+      case 'l': if (next === 'h') { out.push('ʎ'); i++; } else out.push('l'); break;
+      case 'n': if (next === 'h') { out.push('ɲ'); i++; } else out.push('n'); break;
+      case 'c':
+        if (next === 'h') { out.push('ʃ'); i++; }
+        else out.push(frontNext ? 's' : 'k');
+        break;
+      case 'ç': out.push('s'); break;
+      case 'q': out.push('k'); break;
+      case 'g': out.push(frontNext ? 'ʒ' : 'g'); break;
+      case 'j': out.push('ʒ'); break;
+      case 'x': out.push('ʃ'); break;
+      case 'r':
+        if (next === 'r') { out.push('ʁ'); i++; }
+        else out.push(i === 0 || 'nls'.includes(prev) ? 'ʁ' : 'ɾ');
+        break;
+      case 's':
+        if (next === 's') { out.push('s'); i++; }
+        else if (isVowel(prev) && isVowel(next)) out.push('z');
+        // Word-final and before a voiceless consonant, s is "sh" in Portugal
+        else if (i > 0 && (next === undefined || !isVowel(next))) out.push('ʃ');
+        else out.push('s');
+        break;
+      case 'z': out.push(next === undefined ? 'ʃ' : 'z'); break;
+      default: out.push(c);
+    }
+  }
+  return out;
+}
+
+// Rough IPA for pronunciation hints, where the language has a phonemizer
+export const getPhoneticHint = (text: string, language: TargetLanguageCode): string | undefined =>
+  language === 'pt-PT' ? `/${normalizePhrase(text).map(word => toPhonemes(word).join('')).join(' ')}/` : undefined;
+
+const toLetters = (word: string): string[] => Array.from(word.normalize('NFC').toLowerCase());
+
+const getPhonemizer = (language: TargetLanguageCode) => (language === 'pt-PT' ? toPhonemes : toLetters);
+
+// Sounds that are easy to confuse cost half a substitution
+const NEAR_PAIRS = new Set([
+  'ɐ|a', 'u|o', 'ɨ|e', 'ɨ|i', 'ɨ|ɛ', 'ɛ|e', 'ɔ|o', 'ʃ|s', 'ʒ|z', 'ɾ|ʁ', 'ɐ̃|ɐ', 'õ|o', 'ẽ|e', 'ĩ|i', 'ũ|u', 'ɐ̃|a',
+]);
+const substitutionCost = (a: string, b: string) =>
+  a === b ? 0 : NEAR_PAIRS.has(`${a}|${b}`) || NEAR_PAIRS.has(`${b}|${a}`) ? 0.5 : 1;
+
+const phonemeDistance = (a: string[], b: string[]) => {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      nextRow[j] = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + substitutionCost(a[i - 1], b[j - 1]));
+    }
+    row = nextRow;
+  }
+  return row[b.length];
+};
+
+// 0..1
+export const wordSimilarity = (expected: string, heard: string, language: TargetLanguageCode = 'pt-PT') => {
+  const phonemize = getPhonemizer(language);
+  const a = phonemize(expected);
+  const b = phonemize(heard);
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : Math.max(0, 1 - phonemeDistance(a, b) / longest);
+};
+
+// Aligns heard words to expected words (so a skipped or extra word doesn't shift every
+// word after it), then scores each expected word by how close its sound was
+export function scorePronunciation(target: string, heard: string, language: TargetLanguageCode = 'pt-PT'): PronunciationResult {
+  const expected = normalizePhrase(target);
+  const spoken = normalizePhrase(heard);
+
+  const sim = expected.map(e => spoken.map(s => wordSimilarity(e, s, language)));
+  const dp = Array.from({ length: expected.length + 1 }, () => new Array<number>(spoken.length + 1).fill(0));
+  for (let i = 1; i <= expected.length; i++) {
+    for (let j = 1; j <= spoken.length; j++) {
+      dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1] + sim[i - 1][j - 1]);
+    }
+  }
+
+  const words: PronunciationResult['words'] = [];
+  let i = expected.length;
+  let j = spoken.length;
+  while (i > 0) {
+    if (j > 0 && dp[i][j] === dp[i - 1][j - 1] + sim[i - 1][j - 1]) {
+      words.unshift({ expected: expected[i - 1], heard: spoken[j - 1], score: Math.round(sim[i - 1][j - 1] * 100) });
+      i--; j--;
+    } else if (j > 0 && dp[i][j] === dp[i][j - 1]) {
+      j--; // Extra word the learner added
+    } else {
+      words.unshift({ expected: expected[i - 1], score: 0 });
+      i--;
+    }
+  }
+
+  const score = words.length ? Math.round(words.reduce((sum, w) => sum + w.score, 0) / words.length) : 0;
+  return { target, words, score };
+}
@@ -0,0 +1,94 @@
+import { ChatMessage, Correction, LessonReport, SessionTranscript } from '../types';
+import { Translate } from './i18n';
+
+// The end-of-lesson report card: what the learner met and how they did, built from the
+// session transcript and the coach's tool calls.
+
+// Spoken turns are timed from their start to the next message, but a long pause
+// (learner thinking, coach slow to answer) shouldn't count as speech
+const MAX_TURN_MS = 30_000;
+// Fallback for turns without timestamps
+const WORDS_PER_SECOND = 2;
+
+// How much each signal counts towards the score, when it is available
+const SCORE_WEIGHTS = { coach: 0.5, objectives: 0.3, pronunciation: 0.2 };
+
+export function estimateSpeakingMs(messages: ChatMessage[]): number {
+  let total = 0;
+  messages.forEach((message, i) => {
+    if (message.role !== 'user' || message.isTyped || !message.text.trim()) return;
+    const next = messages[i + 1];
+    const words = message.text.trim().split(/\s+/).length;
+    total += message.at !== undefined && next?.at !== undefined
+      ? Math.min(Math.max(next.at - message.at, 0), MAX_TURN_MS)
+      : (words / WORDS_PER_SECOND) * 1000;
+  });
+  return Math.round(total);
+}
+
+export function buildLessonReport(transcript: SessionTranscript, xp?: number): LessonReport {
+  const assessment = transcript.assessment;
+
+  // Keep each phrase once, with the learner's best attempt at it
+  const phrases: LessonReport['phrases'] = [];
+  for (const result of transcript.pronunciation ?? []) {
+    const existing = phrases.find(p => p.phrase === result.target);
+    if (!existing) phrases.push({ phrase: result.target, score: result.score });
+    else existing.score = Math.max(existing.score, result.score);
+  }
+
+  const parts: { value: number; weight: number }[] = [];
+  if (assessment?.score !== undefined) parts.push({ value: assessment.score, weight: SCORE_WEIGHTS.coach });
+  if (assessment && assessment.objectives.length > 0) {
+    parts.push({ value: (assessment.objectivesMet.length / assessment.objectives.length) * 100, weight: SCORE_WEIGHTS.objectives });
+  }
+  if (phrases.length > 0) {
+    parts.push({ value: phrases.reduce((sum, p) => sum + p.score, 0) / phrases.length, weight: SCORE_WEIGHTS.pronunciation });
+  }
+  const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+  // A finished lesson with nothing to go on is a pass, not a failure
+  const score = totalWeight > 0 ? Math.round(parts.reduce((sum, p) => sum + p.value * p.weight, 0) / totalWeight) : 60;
+
+  return {
+    newWords: (transcript.capturedWords ?? []).map(w => ({ term: w.term, gloss: w.gloss })),
+    phrases,
+    corrections: transcript.corrections ?? [],
+    speakingMs: estimateSpeakingMs(transcript.messages),
+    score,
+    rating: Math.min(5, Math.max(1, Math.ceil(score / 20))),
+    summary: assessment?.summary ?? assessment?.feedback,
+    xp,
+  };
+}
+
+export const formatSpeakingTime = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Entries migrated from older reports have no corrected text, only the coach's note
+export const formatCorrection = (correction: Correction) =>
+  correction.corrected ? `${correction.original} → ${correction.corrected}` : correction.explanation;
+
+export const formatStars = (rating: number) => '★'.repeat(rating) + '☆'.repeat(5 - rating);
+
+// Plain-text version for sharing, in the learner's interface language
+export function formatReportText(report: LessonReport, title: string, t: Translate): string {
+  const lines = [
+    title,
+    `${formatStars(report.rating)} (${report.score}/100)`,
+    `${t('report.speakingTime')}: ${formatSpeakingTime(report.speakingMs)}`,
+  ];
+  if (report.xp !== undefined) lines.push(`+${report.xp} XP`);
+  if (report.summary) lines.push('', report.summary);
+  if (report.newWords.length) {
+    lines.push('', `${t('report.newWords')}:`, ...report.newWords.map(w => `- ${w.term} — ${w.gloss}`));
+  }
+  if (report.phrases.length) {
+    lines.push('', `${t('report.phrases')}:`, ...report.phrases.map(p => `- ${p.phrase} (${p.score}/100)`));
+  }
+  if (report.corrections.length) {
+    lines.push('', `${t('report.corrections')}:`, ...report.corrections.map(c => `- ${formatCorrection(c)}${c.corrected && c.explanation ? `: ${c.explanation}` : ''}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
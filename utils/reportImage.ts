@@ -0,0 +1,61 @@
+import { LessonReport } from '../types';
+import { Translate } from './i18n';
+import { formatCorrection, formatSpeakingTime, formatStars } from './reportCard';
+
+// Draws the report card as a PNG for sharing
+
+const WIDTH = 720;
+const PADDING = 48;
+const LINE_HEIGHT = 34;
+const MAX_ITEMS_PER_SECTION = 6;
+
+export function renderReportImage(report: LessonReport, title: string, t: Translate, dir: 'ltr' | 'rtl'): Promise<Blob> {
+  const sections: { heading: string; items: string[] }[] = [
+    { heading: t('report.newWords'), items: report.newWords.map(w => `${w.term} — ${w.gloss}`) },
+    { heading: t('report.phrases'), items: report.phrases.map(p => `${p.phrase} (${p.score}/100)`) },
+    { heading: t('report.corrections'), items: report.corrections.map(formatCorrection) },
+  ].filter(s => s.items.length > 0);
+
+  const lineCount = 4 + sections.reduce((sum, s) => sum + 1.5 + Math.min(s.items.length, MAX_ITEMS_PER_SECTION + 1), 0);
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = Math.ceil(PADDING * 2 + lineCount * LINE_HEIGHT);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not available'));
+
+  ctx.fillStyle = '#111111';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.direction = dir;
+  ctx.textAlign = 'start';
+  ctx.textBaseline = 'top';
+  const x = dir === 'rtl' ? WIDTH - PADDING : PADDING;
+  const maxWidth = WIDTH - PADDING * 2;
+  let y = PADDING;
+  const line = (text: string, font: string, color: string, height = LINE_HEIGHT) => {
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y, maxWidth);
+    y += height;
+  };
+
+  line(title, 'bold 30px sans-serif', '#ffffff', LINE_HEIGHT * 1.4);
+  line(`${formatStars(report.rating)}  ${report.score}/100`, 'bold 32px sans-serif', '#FFC800', LINE_HEIGHT * 1.4);
+  line(
+    `${t('report.speakingTime')}: ${formatSpeakingTime(report.speakingMs)}${report.xp !== undefined ? `   +${report.xp} XP` : ''}`,
+    '22px sans-serif',
+    '#9ca3af',
+    LINE_HEIGHT * 1.2
+  );
+  for (const section of sections) {
+    y += LINE_HEIGHT / 2;
+    line(section.heading, 'bold 22px sans-serif', '#4ade80');
+    section.items.slice(0, MAX_ITEMS_PER_SECTION).forEach(item => line(`• ${item}`, '22px sans-serif', '#e5e7eb'));
+    if (section.items.length > MAX_ITEMS_PER_SECTION) {
+      line(t('report.more', { count: section.items.length - MAX_ITEMS_PER_SECTION }), 'italic 20px sans-serif', '#9ca3af');
+    }
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render the report card')), 'image/png')
+  );
+}
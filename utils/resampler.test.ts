@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIO_INPUT_FRAME_SIZE, AUDIO_SAMPLE_RATE_INPUT } from '../constants';
+import { FrameChunker, resample, SincResampler } from './resampler';
+
+const tone = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+describe('resample', () => {
+  it('returns one second of output for one second of input', () => {
+    expect(resample(tone(440, 48000, 48000), 48000, 16000)).toHaveLength(16000);
+    expect(resample(tone(440, 44100, 44100), 44100, 16000)).toHaveLength(16000);
+    expect(resample(tone(440, 16000, 16000), 16000, 24000)).toHaveLength(24000);
+  });
+
+  it('leaves the samples alone when the rates match', () => {
+    const samples = tone(440, 16000, 100);
+    expect(resample(samples, 16000, 16000)).toBe(samples);
+  });
+
+  it('keeps a tone below the new Nyquist frequency', () => {
+    const output = resample(tone(440, 48000, 4800), 48000, 16000);
+    for (let i = 200; i < 1400; i += 97) {
+      expect(output[i]).toBeCloseTo(Math.sin((2 * Math.PI * 440 * i) / 16000), 1);
+    }
+  });
+
+  it('filters out a tone above the new Nyquist frequency', () => {
+    const output = resample(tone(12000, 48000, 4800), 48000, 16000);
+    const peak = Math.max(...output.subarray(200, 1400).map(Math.abs));
+    expect(peak).toBeLessThan(0.05);
+  });
+});
+
+describe('FrameChunker', () => {
+  it('carries a partial frame into the next push', () => {
+    const chunker = new FrameChunker(4);
+    expect(chunker.push(Float32Array.from([1, 2, 3]))).toEqual([]);
+    expect(chunker.push(Float32Array.from([4, 5, 6, 7, 8, 9]))).toEqual([
+      Float32Array.from([1, 2, 3, 4]),
+      Float32Array.from([5, 6, 7, 8]),
+    ]);
+  });
+
+  it('frames a second of 48 kHz mic blocks into 640-sample frames at 16 kHz', () => {
+    const resampler = new SincResampler(48000, AUDIO_SAMPLE_RATE_INPUT);
+    const chunker = new FrameChunker(AUDIO_INPUT_FRAME_SIZE);
+    const input = tone(440, 48000, 48000);
+    const frames: Float32Array[] = [];
+    // AudioWorklets are handed 128-sample render quanta
+    for (let offset = 0; offset < input.length; offset += 128) {
+      frames.push(...chunker.push(resampler.process(input.subarray(offset, offset + 128))));
+    }
+    frames.push(...chunker.push(resampler.flush()));
+    expect(frames).toHaveLength(AUDIO_SAMPLE_RATE_INPUT / AUDIO_INPUT_FRAME_SIZE);
+    expect(frames.every(frame => frame.length === AUDIO_INPUT_FRAME_SIZE)).toBe(true);
+  });
+});
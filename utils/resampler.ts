@@ -0,0 +1,136 @@
+// Streaming band-limited resampler (windowed-sinc interpolation).
+// The low-pass cutoff follows the lower of the two rates, so downsampling from the
+// device's native rate (44.1/48 kHz) to 16 kHz doesn't alias.
+//
+// This class is also stringified into the capture AudioWorklet (see audioCapture.ts),
+// so it must stay self-contained: no imports and no references to module-level values.
+export class SincResampler {
+  private ratio: number;
+  private halfWidth: number;
+  private resolution: number;
+  private table: Float32Array;
+  private buffer: Float32Array;
+  private bufferLength: number;
+  private position: number;
+
+  constructor(inputRate: number, outputRate: number, zeroCrossings: number = 8) {
+    // Input samples advanced per output sample
+    this.ratio = inputRate / outputRate;
+    // Cutoff as a fraction of the input Nyquist, with some headroom for the transition band
+    const cutoff = Math.min(1, outputRate / inputRate) * 0.92;
+    this.halfWidth = Math.ceil(zeroCrossings / cutoff);
+    this.resolution = 128;
+
+    // Kernel lookup table over [0, halfWidth], Blackman-windowed
+    const size = this.halfWidth * this.resolution + 2;
+    this.table = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const d = i / this.resolution;
+      if (d > this.halfWidth) break;
+      const x = cutoff * d;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const w = 0.42 + 0.5 * Math.cos((Math.PI * d) / this.halfWidth) + 0.08 * Math.cos((2 * Math.PI * d) / this.halfWidth);
+      this.table[i] = cutoff * sinc * w;
+    }
+
+    // Prime with silence so the first output sample has left-hand context
+    this.buffer = new Float32Array(this.halfWidth * 4 + 4096);
+    this.bufferLength = this.halfWidth;
+    this.position = this.halfWidth;
+  }
+
+  // Feeds input samples and returns every output sample that can now be computed
+  process(input: Float32Array): Float32Array {
+    this.append(input);
+
+    const available = this.bufferLength - this.halfWidth - this.position;
+    const output = new Float32Array(Math.max(0, Math.ceil(available / this.ratio) + 1));
+    let count = 0;
+
+    while (this.position + this.halfWidth < this.bufferLength) {
+      const center = Math.floor(this.position);
+      let sum = 0;
+      for (let k = center - this.halfWidth + 1; k <= center + this.halfWidth; k++) {
+        const distance = Math.abs(this.position - k);
+        if (distance >= this.halfWidth) continue;
+        const index = distance * this.resolution;
+        const i = Math.floor(index);
+        const t = index - i;
+        sum += this.buffer[k] * (this.table[i] * (1 - t) + this.table[i + 1] * t);
+      }
+      output[count++] = sum;
+      this.position += this.ratio;
+    }
+
+    // Drop samples no future output sample can reach
+    const drop = Math.floor(this.position) - this.halfWidth;
+    if (drop > 0) {
+      this.buffer.copyWithin(0, drop, this.bufferLength);
+      this.bufferLength -= drop;
+      this.position -= drop;
+    }
+
+    return output.subarray(0, count);
+  }
+
+  // Pads with silence to emit the tail still waiting for right-hand context
+  flush(): Float32Array {
+    return this.process(new Float32Array(this.halfWidth + Math.ceil(this.ratio)));
+  }
+
+  private append(input: Float32Array) {
+    const needed = this.bufferLength + input.length;
+    if (needed > this.buffer.length) {
+      const grown = new Float32Array(Math.max(needed, this.buffer.length * 2));
+      grown.set(this.buffer.subarray(0, this.bufferLength));
+      this.buffer = grown;
+    }
+    this.buffer.set(input, this.bufferLength);
+    this.bufferLength = needed;
+  }
+}
+
+// Cuts a stream of samples into fixed-size frames, carrying the remainder into the next push.
+// Stringified into the capture AudioWorklet alongside SincResampler, so the same rules apply.
+export class FrameChunker {
+  private frameSize: number;
+  private frame: Float32Array;
+  private filled: number;
+
+  constructor(frameSize: number) {
+    this.frameSize = frameSize;
+    this.frame = new Float32Array(frameSize);
+    this.filled = 0;
+  }
+
+  // Returns every frame the new samples complete; each one is a fresh array the caller can transfer
+  push(samples: Float32Array): Float32Array[] {
+    const frames: Float32Array[] = [];
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(this.frameSize - this.filled, samples.length - offset);
+      this.frame.set(samples.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.frameSize) {
+        frames.push(this.frame);
+        this.frame = new Float32Array(this.frameSize);
+        this.filled = 0;
+      }
+    }
+    return frames;
+  }
+}
+
+// One-shot conversion of a complete buffer
+export function resample(samples: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return samples;
+  const resampler = new SincResampler(inputRate, outputRate);
+  const head = resampler.process(samples);
+  const tail = resampler.flush();
+  const expected = Math.round((samples.length * outputRate) / inputRate);
+  const result = new Float32Array(expected);
+  result.set(head.subarray(0, expected));
+  if (head.length < expected) result.set(tail.subarray(0, expected - head.length), head.length);
+  return result;
+}
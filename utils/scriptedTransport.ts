@@ -0,0 +1,178 @@
+import { LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveServerContent, LiveServerMessage } from '@google/genai';
+import { AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT } from '../constants';
+import { base64ToUint8Array, createAudioBlob } from './audioUtils';
+import { LiveConnectParams, LiveTransport, LiveTransportSession } from './liveTransport';
+
+// Offline stand-in for the Live API. Replays a script of coach turns as real
+// LiveServerMessages (PCM audio, outputTranscription, interrupted, turnComplete)
+// so the lesson UI can be developed, demoed and exercised without a key or network.
+
+export interface ScriptedTurn {
+  // What the learner is assumed to have said; replayed as inputTranscription before the coach answers
+  userTranscript?: string;
+  // Spoken by the coach, streamed word by word as outputTranscription with matching audio
+  modelTranscript: string;
+  // Emit `interrupted` after this many audio chunks, as if the learner barged in
+  interruptAfterChunks?: number;
+  // Drop the socket once this turn completes, to exercise reconnection and resumption
+  dropConnectionAfter?: boolean;
+  // Function calls the coach makes at the end of the turn (e.g. mark_objective_met)
+  toolCalls?: { name: string; args?: Record<string, unknown> }[];
+}
+
+export interface LiveScript {
+  turns: ScriptedTurn[];
+  // Spacing between streamed chunks; defaults to 220 ms
+  chunkMs?: number;
+}
+
+const HANDLE_PREFIX = 'scripted:';
+
+// How much voiced learner audio counts as "the learner said something"
+const SPEECH_RMS_THRESHOLD = 0.01;
+const SPEECH_MS_PER_TURN = 1200;
+
+const message = (serverContent: LiveServerContent): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), { serverContent });
+
+const resumptionUpdate = (turnIndex: number): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), {
+    sessionResumptionUpdate: { newHandle: `${HANDLE_PREFIX}${turnIndex}`, resumable: true },
+  });
+
+// A soft vowel-like tone so the visualizer and playback queue get realistic input
+const synthesizeSpeechChunk = (durationMs: number, seed: number): string => {
+  const length = Math.round((AUDIO_SAMPLE_RATE_OUTPUT * durationMs) / 1000);
+  const samples = new Float32Array(length);
+  const pitch = 170 + (seed % 7) * 12;
+  for (let i = 0; i < length; i++) {
+    const t = i / AUDIO_SAMPLE_RATE_OUTPUT;
+    const envelope = Math.sin((Math.PI * i) / length);
+    samples[i] = envelope * 0.15 * (
+      Math.sin(2 * Math.PI * pitch * t) +
+      0.5 * Math.sin(2 * Math.PI * pitch * 2 * t) +
+      0.25 * Math.sin(2 * Math.PI * pitch * 3 * t)
+    );
+  }
+  return createAudioBlob(samples, AUDIO_SAMPLE_RATE_OUTPUT).data!;
+};
+
+const rmsOfBlob = (base64: string): number => {
+  const bytes = base64ToUint8Array(base64);
+  const pcm = new Int16Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 2));
+  if (pcm.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 32768;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / pcm.length);
+};
+
+export const createScriptedTransport = (script: LiveScript): LiveTransport => ({
+  name: 'scripted',
+  isOffline: true,
+  connect: async ({ config, callbacks }: LiveConnectParams): Promise<LiveTransportSession> => {
+    const chunkMs = script.chunkMs ?? 220;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let closed = false;
+    let turnIndex = 0;
+    let isPlaying = false;
+    let voicedMs = 0;
+
+    // Resuming picks the script up at the turn the handle was issued for
+    const handle = config.sessionResumption?.handle;
+    if (handle?.startsWith(HANDLE_PREFIX)) {
+      turnIndex = Number(handle.slice(HANDLE_PREFIX.length)) || 0;
+    }
+
+    const schedule = (fn: () => void, delay: number) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (!closed) fn();
+      }, delay);
+      timers.add(timer);
+    };
+
+    // Typed turns arrive as client content and already appear in the transcript, so they aren't echoed
+    const playTurn = (turn: ScriptedTurn, echoUser: boolean) => {
+      isPlaying = true;
+      let delay = 0;
+
+      if (turn.userTranscript && echoUser) {
+        schedule(() => callbacks.onmessage(message({ inputTranscription: { text: turn.userTranscript } })), delay);
+        delay += chunkMs * 2;
+      }
+
+      const words = turn.modelTranscript.split(/\s+/).filter(Boolean);
+      for (let i = 0; i < words.length; i++) {
+        if (turn.interruptAfterChunks !== undefined && i === turn.interruptAfterChunks) {
+          schedule(() => callbacks.onmessage(message({ interrupted: true })), delay);
+          break;
+        }
+        const text = (i === 0 ? '' : ' ') + words[i];
+        const audio = synthesizeSpeechChunk(chunkMs, turnIndex + i);
+        schedule(() => {
+          callbacks.onmessage(message({
+            modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: `audio/pcm;rate=${AUDIO_SAMPLE_RATE_OUTPUT}`, data: audio } }] },
+          }));
+          callbacks.onmessage(message({ outputTranscription: { text } }));
+        }, delay);
+        delay += chunkMs;
+      }
+
+      if (turn.toolCalls?.length) {
+        const functionCalls = turn.toolCalls.map((call, i) => ({ id: `scripted-${turnIndex}-${i}`, ...call }));
+        schedule(() => callbacks.onmessage(Object.assign(new LiveServerMessage(), { toolCall: { functionCalls } })), delay);
+      }
+
+      turnIndex++;
+      const nextTurnIndex = turnIndex;
+      schedule(() => {
+        callbacks.onmessage(message({ turnComplete: true }));
+        callbacks.onmessage(resumptionUpdate(nextTurnIndex));
+        isPlaying = false;
+        voicedMs = 0;
+        if (turn.dropConnectionAfter) drop();
+      }, delay);
+    };
+
+    const drop = () => {
+      closed = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+      callbacks.onclose();
+    };
+
+    const advance = (echoUser: boolean) => {
+      const turn = script.turns[turnIndex];
+      if (turn) playTurn(turn, echoUser);
+    };
+
+    const session: LiveTransportSession = {
+      sendRealtimeInput: ({ media, audio }: LiveSendRealtimeInputParameters) => {
+        if (closed || isPlaying) return;
+        const blob = (audio ?? media) as { data?: string } | undefined;
+        if (!blob?.data) return;
+
+        const bytes = (blob.data.length * 3) / 4;
+        const durationMs = (bytes / 2 / AUDIO_SAMPLE_RATE_INPUT) * 1000;
+        if (rmsOfBlob(blob.data) > SPEECH_RMS_THRESHOLD) voicedMs += durationMs;
+        if (voicedMs >= SPEECH_MS_PER_TURN) advance(true);
+      },
+      // Any completed client-content turn (such as the lesson kickoff) gets the next scripted answer
+      sendClientContent: ({ turnComplete }: LiveSendClientContentParameters) => {
+        if (closed || isPlaying || turnComplete === false) return;
+        advance(false);
+      },
+      // Scripted coaches don't react to tool results
+      sendToolResponse: () => {},
+      close: () => {
+        if (!closed) drop();
+      },
+    };
+
+    schedule(() => callbacks.onopen(), 50);
+    return session;
+  },
+});
@@ -0,0 +1,176 @@
+import { AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT } from '../constants';
+import { ChatMessage } from '../types';
+import { Translate } from './i18n';
+import { resample } from './resampler';
+import { encodeWav } from './wav';
+
+// Opt-in lesson recorder. Keeps the learner's 16 kHz mic frames and the coach's 24 kHz
+// playback buffers on one shared timeline (performance.now() milliseconds), so both
+// sides can be exported together, either mixed to mono or as a two-track stereo file.
+
+interface Clip {
+  startMs: number; // Relative to the start of the recording
+  samples: Float32Array;
+}
+
+export type WavLayout = 'mixed' | 'tracks';
+
+export interface SessionRecorder {
+  startedAtEpoch: number;
+  addLearnerFrame: (frame: Float32Array) => void;
+  // atPerfMs is when the buffer starts playing, on the performance.now() clock
+  addCoachBuffer: (samples: Float32Array, atPerfMs: number) => void;
+  // The coach was interrupted: drop any audio scheduled after this moment
+  cutCoachAt: (atPerfMs: number) => void;
+  stop: () => void;
+  isRecording: () => boolean;
+  durationMs: () => number;
+  exportWav: (layout: WavLayout) => Blob;
+}
+
+// Learner frames closer than this to the previous one are treated as contiguous,
+// absorbing message-port jitter instead of leaving clicks and tiny gaps
+const CONTIGUITY_TOLERANCE_MS = 100;
+
+export const createSessionRecorder = (): SessionRecorder => {
+  const startPerf = performance.now();
+  const startedAtEpoch = Date.now();
+  const learnerClips: Clip[] = [];
+  const coachClips: Clip[] = [];
+  let learnerEndMs = 0;
+  let recording = true;
+  let stoppedAtMs: number | null = null;
+
+  const now = () => performance.now() - startPerf;
+  const clipEnd = (clip: Clip, rate: number) => clip.startMs + (clip.samples.length / rate) * 1000;
+
+  const addLearnerFrame = (frame: Float32Array) => {
+    if (!recording) return;
+    const frameMs = (frame.length / AUDIO_SAMPLE_RATE_INPUT) * 1000;
+    // The frame finished capturing just now
+    let startMs = Math.max(0, now() - frameMs);
+    if (Math.abs(startMs - learnerEndMs) < CONTIGUITY_TOLERANCE_MS) startMs = learnerEndMs;
+    learnerClips.push({ startMs, samples: frame.slice() });
+    learnerEndMs = startMs + frameMs;
+  };
+
+  const addCoachBuffer = (samples: Float32Array, atPerfMs: number) => {
+    if (!recording) return;
+    coachClips.push({ startMs: Math.max(0, atPerfMs - startPerf), samples: samples.slice() });
+  };
+
+  const cutCoachAt = (atPerfMs: number) => {
+    const cutMs = atPerfMs - startPerf;
+    for (let i = coachClips.length - 1; i >= 0; i--) {
+      const clip = coachClips[i];
+      if (clip.startMs >= cutMs) {
+        coachClips.splice(i, 1);
+      } else if (clipEnd(clip, AUDIO_SAMPLE_RATE_OUTPUT) > cutMs) {
+        const keep = Math.floor(((cutMs - clip.startMs) / 1000) * AUDIO_SAMPLE_RATE_OUTPUT);
+        clip.samples = clip.samples.slice(0, keep);
+      }
+    }
+  };
+
+  const durationMs = () => {
+    if (stoppedAtMs !== null) return stoppedAtMs;
+    return now();
+  };
+
+  // Renders one track at the output rate by placing every clip at its offset
+  const renderTrack = (clips: Clip[], rate: number, totalSamples: number) => {
+    const track = new Float32Array(totalSamples);
+    for (const clip of clips) {
+      const samples = rate === AUDIO_SAMPLE_RATE_OUTPUT
+        ? clip.samples
+        : resample(clip.samples, rate, AUDIO_SAMPLE_RATE_OUTPUT);
+      const offset = Math.round((clip.startMs / 1000) * AUDIO_SAMPLE_RATE_OUTPUT);
+      for (let i = 0; i < samples.length && offset + i < totalSamples; i++) {
+        track[offset + i] += samples[i];
+      }
+    }
+    return track;
+  };
+
+  // Learner frames are resampled as one continuous run per contiguous stretch, so the
+  // resampler's filter doesn't add edge artifacts every 40 ms
+  const mergeContiguous = (clips: Clip[], rate: number) => {
+    const merged: Clip[] = [];
+    for (const clip of clips) {
+      const last = merged[merged.length - 1];
+      if (last && Math.abs(clipEnd(last, rate) - clip.startMs) < 1) {
+        const joined = new Float32Array(last.samples.length + clip.samples.length);
+        joined.set(last.samples);
+        joined.set(clip.samples, last.samples.length);
+        last.samples = joined;
+      } else {
+        merged.push({ ...clip });
+      }
+    }
+    return merged;
+  };
+
+  const exportWav = (layout: WavLayout) => {
+    const endMs = Math.max(
+      0,
+      ...learnerClips.map(c => clipEnd(c, AUDIO_SAMPLE_RATE_INPUT)),
+      ...coachClips.map(c => clipEnd(c, AUDIO_SAMPLE_RATE_OUTPUT))
+    );
+    const totalSamples = Math.ceil((endMs / 1000) * AUDIO_SAMPLE_RATE_OUTPUT);
+    const learner = renderTrack(mergeContiguous(learnerClips, AUDIO_SAMPLE_RATE_INPUT), AUDIO_SAMPLE_RATE_INPUT, totalSamples);
+    const coach = renderTrack(coachClips, AUDIO_SAMPLE_RATE_OUTPUT, totalSamples);
+
+    if (layout === 'tracks') {
+      // Left: learner, right: coach
+      return encodeWav([learner, coach], AUDIO_SAMPLE_RATE_OUTPUT);
+    }
+    const mixed = new Float32Array(totalSamples);
+    for (let i = 0; i < totalSamples; i++) mixed[i] = learner[i] + coach[i];
+    return encodeWav([mixed], AUDIO_SAMPLE_RATE_OUTPUT);
+  };
+
+  return {
+    startedAtEpoch,
+    addLearnerFrame,
+    addCoachBuffer,
+    cutCoachAt,
+    stop: () => {
+      if (!recording) return;
+      recording = false;
+      stoppedAtMs = now();
+    },
+    isRecording: () => recording,
+    durationMs,
+    exportWav,
+  };
+};
+
+const formatOffset = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Plain-text transcript to ship alongside the WAV, with offsets matching the recording
+export function formatTranscriptSidecar(
+  messages: ChatMessage[],
+  startedAtEpoch: number,
+  heading: string,
+  coachName: string,
+  t: Translate
+): string {
+  const lines = messages
+    .filter(m => m.text)
+    .map(m => {
+      const offset = m.at !== undefined ? `[${formatOffset(m.at - startedAtEpoch)}] ` : '';
+      return `${offset}${m.role === 'user' ? t('session.transcriptLearner') : coachName}: ${m.text}`;
+    });
+  return [
+    heading,
+    t('session.transcriptRecorded', { date: new Date(startedAtEpoch).toISOString() }),
+    '',
+    ...lines,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedWord } from '../types';
+import { addWordsToDeck, applyCardGrades, createCard, getDueCards, normalizeTerm, reviewCard } from './srs';
+
+// Local time, so day boundaries fall where srs puts them whatever the test machine's zone
+const NOW = new Date(2026, 0, 10, 15, 30).getTime();
+const day = (offset: number) => new Date(2026, 0, 10 + offset).getTime();
+
+const word = (term: string): CapturedWord => ({ term, gloss: term, subjectId: 'greetings', subjectTitle: 'Greetings' });
+
+describe('reviewCard', () => {
+  it('follows the SM-2 intervals of 1, 6, then interval × ease days', () => {
+    let card = createCard(word('olá'), NOW);
+    card = reviewCard(card, 4, NOW);
+    expect([card.repetitions, card.intervalDays, card.dueAt]).toEqual([1, 1, day(1)]);
+    card = reviewCard(card, 4, NOW);
+    expect([card.repetitions, card.intervalDays, card.dueAt]).toEqual([2, 6, day(6)]);
+    card = reviewCard(card, 4, NOW);
+    expect([card.repetitions, card.intervalDays, card.dueAt]).toEqual([3, 15, day(15)]);
+    expect(card.easeFactor).toBe(2.5);
+  });
+
+  it('raises the ease for perfect recall and lowers it for a hesitant one', () => {
+    const card = createCard(word('olá'), NOW);
+    expect(reviewCard(card, 5, NOW).easeFactor).toBeCloseTo(2.6);
+    expect(reviewCard(card, 3, NOW).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let card = createCard(word('olá'), NOW);
+    for (let i = 0; i < 5; i++) card = reviewCard(card, 0, NOW);
+    expect(card.easeFactor).toBe(1.3);
+  });
+
+  it('starts a failed card over the next day but keeps its reduced ease', () => {
+    let card = createCard(word('olá'), NOW);
+    card = reviewCard(reviewCard(reviewCard(card, 5, NOW), 5, NOW), 5, NOW);
+    const failed = reviewCard(card, 2, NOW);
+    expect([failed.repetitions, failed.intervalDays, failed.dueAt]).toEqual([0, 1, day(1)]);
+    expect(failed.easeFactor).toBeCloseTo(card.easeFactor - 0.32);
+  });
+});
+
+describe('getDueCards', () => {
+  it('returns cards due by the end of today, most overdue first', () => {
+    const later = { ...createCard(word('tarde'), NOW), dueAt: day(0) + 23 * 60 * 60 * 1000 };
+    const overdue = { ...createCard(word('dia'), NOW), dueAt: day(-3) };
+    const tomorrow = { ...createCard(word('noite'), NOW), dueAt: day(1) };
+    expect(getDueCards([later, tomorrow, overdue], NOW).map(card => card.term)).toEqual(['dia', 'tarde']);
+  });
+
+  it('caps a review at the session limit', () => {
+    const deck = ['um', 'dois', 'três'].map(term => createCard(word(term), NOW));
+    expect(getDueCards(deck, NOW, 2)).toHaveLength(2);
+  });
+});
+
+describe('addWordsToDeck', () => {
+  it('skips terms the deck already has, ignoring case and punctuation', () => {
+    const deck = addWordsToDeck([], [word('Olá!')], NOW);
+    const next = addWordsToDeck(deck, [word('olá'), word('Bom dia.'), word('bom  dia')], NOW);
+    expect(next.map(card => card.term)).toEqual(['Olá!', 'Bom dia.']);
+  });
+
+  it('returns the same deck when nothing is new', () => {
+    const deck = addWordsToDeck([], [word('olá')], NOW);
+    expect(addWordsToDeck(deck, [word('OLÁ')], NOW)).toBe(deck);
+  });
+
+  it('treats decomposed and composed accents as the same term', () => {
+    expect(normalizeTerm('ola\u0301')).toBe(normalizeTerm('olá'));
+  });
+});
+
+describe('applyCardGrades', () => {
+  it('reviews only graded cards, using the last grade given', () => {
+    const [hello, morning] = addWordsToDeck([], [word('olá'), word('bom dia')], NOW);
+    const next = applyCardGrades([hello, morning], [{ cardId: hello.id, quality: 1 }, { cardId: hello.id, quality: 5 }], NOW);
+    expect(next[0].repetitions).toBe(1);
+    expect(next[1]).toBe(morning);
+  });
+});
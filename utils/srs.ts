@@ -0,0 +1,85 @@
+import { CapturedWord, CardGrade, VocabularyCard } from '../types';
+
+// SM-2 spaced repetition for the vocabulary deck. Intervals are whole days and cards
+// fall due at the start of the learner's local day, so a daily review picks up
+// everything scheduled for today regardless of the time it was last reviewed.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Most cards quizzed in one daily review session
+export const MAX_REVIEW_CARDS = 15;
+
+const startOfDay = (epochMs: number) => {
+  const date = new Date(epochMs);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const addDays = (epochMs: number, days: number) => {
+  const date = new Date(startOfDay(epochMs));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// Terms are compared case- and punctuation-insensitively so "Olá!" and "olá" are one card
+export const normalizeTerm = (term: string) =>
+  term.normalize('NFC').trim().toLowerCase().replace(/[.,!?¡¿;:"'()]/g, '').replace(/\s+/g, ' ');
+
+// New cards are due straight away so the next review can reinforce them
+export const createCard = (word: CapturedWord, now: number): VocabularyCard => ({
+  ...word,
+  id: `${now}-${normalizeTerm(word.term).replace(/\s/g, '-')}`,
+  addedAt: now,
+  easeFactor: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: now,
+});
+
+export function reviewCard(card: VocabularyCard, quality: number, now: number): VocabularyCard {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  // A failed recall starts the card over, but keeps its (reduced) ease
+  if (q < 3) {
+    return { ...card, easeFactor, repetitions: 0, intervalDays: 1, dueAt: addDays(now, 1), lastReviewedAt: now };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays =
+    repetitions === 1 ? 1 :
+    repetitions === 2 ? 6 :
+    Math.round(card.intervalDays * card.easeFactor);
+  return { ...card, easeFactor, repetitions, intervalDays, dueAt: addDays(now, intervalDays), lastReviewedAt: now };
+}
+
+export const isDue = (card: VocabularyCard, now: number) => card.dueAt < addDays(now, 1);
+
+// Most overdue first, capped to one session's worth
+export const getDueCards = (deck: VocabularyCard[], now: number, limit = MAX_REVIEW_CARDS) =>
+  deck
+    .filter(card => isDue(card, now))
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .slice(0, limit);
+
+// Adds newly taught words, skipping terms the deck already has
+export function addWordsToDeck(deck: VocabularyCard[], words: CapturedWord[], now: number): VocabularyCard[] {
+  const known = new Set(deck.map(card => normalizeTerm(card.term)));
+  const added: VocabularyCard[] = [];
+  for (const word of words) {
+    const key = normalizeTerm(word.term);
+    if (!key || known.has(key)) continue;
+    known.add(key);
+    added.push(createCard(word, now));
+  }
+  return added.length ? [...deck, ...added] : deck;
+}
+
+export function applyCardGrades(deck: VocabularyCard[], grades: CardGrade[], now: number): VocabularyCard[] {
+  if (grades.length === 0) return deck;
+  // If the coach graded a card twice, the last grade wins
+  const byId = new Map(grades.map(grade => [grade.cardId, grade.quality]));
+  return deck.map(card => byId.has(card.id) ? reviewCard(card, byId.get(card.id)!, now) : card);
+}
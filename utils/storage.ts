@@ -0,0 +1,135 @@
+// Key-value persistence for learner data.
+// IndexedDB is preferred; localStorage is used when IndexedDB is unavailable
+// (private browsing, sandboxed iframes, older WebViews).
+
+const DB_NAME = 'linguoflow';
+const DB_STORE = 'kv';
+const LOCAL_PREFIX = 'linguoflow:';
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// Every persisted record carries the schema version it was written with
+export interface VersionedRecord<T> {
+  version: number;
+  data: T;
+}
+
+// Upgrades data written at version N to version N + 1
+export type Migration = (data: unknown) => unknown;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(DB_STORE)) {
+        request.result.createObjectStore(DB_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+  });
+
+const createIndexedDBStore = (db: IDBDatabase): KeyValueStore => {
+  const withStore = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+    requestToPromise(fn(db.transaction(DB_STORE, mode).objectStore(DB_STORE)));
+
+  return {
+    get: async <T>(key: string) => (await withStore('readonly', s => s.get(key))) as T | undefined,
+    set: async (key, value) => { await withStore('readwrite', s => s.put(value, key)); },
+    remove: async (key) => { await withStore('readwrite', s => s.delete(key)); },
+  };
+};
+
+const createLocalStorageStore = (): KeyValueStore => ({
+  get: async <T>(key: string) => {
+    const raw = window.localStorage.getItem(LOCAL_PREFIX + key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  },
+  set: async (key, value) => {
+    window.localStorage.setItem(LOCAL_PREFIX + key, JSON.stringify(value));
+  },
+  remove: async (key) => {
+    window.localStorage.removeItem(LOCAL_PREFIX + key);
+  },
+});
+
+let storePromise: Promise<KeyValueStore> | null = null;
+
+export const getStore = (): Promise<KeyValueStore> => {
+  if (!storePromise) {
+    storePromise = (async () => {
+      if (typeof indexedDB !== 'undefined') {
+        try {
+          return createIndexedDBStore(await openDatabase());
+        } catch (e) {
+          console.warn('IndexedDB unavailable, falling back to localStorage', e);
+        }
+      }
+      return createLocalStorageStore();
+    })();
+  }
+  return storePromise;
+};
+
+// Reads a versioned record and runs any migrations between its version and the current one.
+// Migrated data is written back so the upgrade only happens once.
+export async function readVersioned<T>(
+  key: string,
+  currentVersion: number,
+  migrations: Record<number, Migration>
+): Promise<T | undefined> {
+  const store = await getStore();
+  const record = await store.get<VersionedRecord<unknown>>(key);
+  if (!record) return undefined;
+
+  if (record.version > currentVersion) {
+    // Written by a newer build; refuse to guess rather than corrupt it
+    throw new Error(`Stored "${key}" has schema v${record.version}, this build supports v${currentVersion}`);
+  }
+
+  let data: unknown = record.data;
+  for (let v = record.version; v < currentVersion; v++) {
+    const migrate = migrations[v];
+    if (!migrate) throw new Error(`No migration for "${key}" from schema v${v}`);
+    data = migrate(data);
+  }
+
+  if (record.version !== currentVersion) {
+    await store.set<VersionedRecord<T>>(key, { version: currentVersion, data: data as T });
+  }
+  return data as T;
+}
+
+export async function writeVersioned<T>(key: string, version: number, data: T): Promise<void> {
+  const store = await getStore();
+  await store.set<VersionedRecord<T>>(key, { version, data });
+}
+
+export async function removeRecord(key: string): Promise<void> {
+  const store = await getStore();
+  await store.remove(key);
+}
+
+// Learner data is stored per profile, and per target language where it differs,
+// e.g. "deck:<profileId>:pt-PT"
+export const scopedKey = (key: string, ...scope: string[]) => [key, ...scope].join(':');
+
+// Moves a record to a new key as is, keeping its schema version
+export async function moveRecord(from: string, to: string): Promise<void> {
+  const store = await getStore();
+  const record = await store.get<VersionedRecord<unknown>>(from);
+  if (!record) return;
+  await store.set(to, record);
+  await store.remove(from);
+}
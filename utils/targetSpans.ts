@@ -0,0 +1,86 @@
+import { CapturedWord, Level, TargetLanguage } from '../types';
+import { normalizeTerm } from './srs';
+
+// Finds the target-language parts of a coach message so they can be tapped for a translation.
+// In immersion mode the whole message is in the target language, so every word counts.
+// In assisted mode the coach quotes what the learner should say ("Listen: 'Bom dia'"), and
+// words from the curriculum or taught this session are picked out wherever they appear.
+
+export interface TextSegment {
+  text: string;
+  isTarget: boolean;
+}
+
+// Normalized term → meaning, where the meaning is known
+export type Lexicon = Map<string, string | undefined>;
+
+// Curriculum glosses are English, so they only count as translations for English speakers;
+// words captured this session were glossed in the learner's own language
+export function buildLexicon(language: TargetLanguage, levels: Level[], captured: CapturedWord[], glossesAreNative: boolean): Lexicon {
+  const lexicon: Lexicon = new Map();
+  const add = (term: string, gloss?: string) => {
+    const key = normalizeTerm(term);
+    if (key.length >= 2 && (gloss || !lexicon.has(key))) lexicon.set(key, gloss);
+  };
+  add(language.phrases.hello);
+  add(language.phrases.goodMorning);
+  for (const vocab of levels.flatMap(level => level.subjects).flatMap(subject => subject.vocabulary ?? [])) {
+    add(vocab.term, glossesAreNative ? vocab.gloss : undefined);
+  }
+  for (const word of captured) add(word.term, word.gloss);
+  return lexicon;
+}
+
+export const lookupGloss = (lexicon: Lexicon, term: string) => lexicon.get(normalizeTerm(term));
+
+const isLetter = (c: string | undefined) => !!c && /[\p{L}\p{M}]/u.test(c);
+// An opening quote starts a word, so apostrophes inside words ("let's") are not quotes
+const QUOTED = /(?<![\p{L}\p{M}])(['"‘“«])([^'"‘’“”«»\n]{1,60}?)(['"’”»])(?![\p{L}\p{M}])/gu;
+const WORD = /[\p{L}\p{M}][\p{L}\p{M}'’-]*/gu;
+
+type Range = { start: number; end: number };
+
+const toSegments = (text: string, ranges: Range[]): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  for (const { start, end } of ranges.sort((a, b) => a.start - b.start)) {
+    if (start < cursor) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), isTarget: false });
+    segments.push({ text: text.slice(start, end), isTarget: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), isTarget: false });
+  return segments;
+};
+
+export function splitTargetSpans(message: string, lexicon: Lexicon, isImmersion: boolean): TextSegment[] {
+  const text = message.normalize('NFC');
+  if (isImmersion) {
+    return toSegments(text, Array.from(text.matchAll(WORD), m => ({ start: m.index!, end: m.index! + m[0].length })));
+  }
+
+  const ranges: Range[] = [];
+  const overlaps = (start: number, end: number) => ranges.some(r => start < r.end && end > r.start);
+
+  // Quoted phrases, without the quote marks
+  for (const match of text.matchAll(QUOTED)) {
+    const inner = match[2].trim();
+    if (!isLetter(inner[0])) continue;
+    const start = match.index! + 1 + match[2].indexOf(inner);
+    ranges.push({ start, end: start + inner.length });
+  }
+
+  // Known terms elsewhere, longest first so "bom dia" wins over "dia"
+  const lower = text.toLowerCase();
+  const terms = [...lexicon.keys()].sort((a, b) => b.length - a.length);
+  for (const term of terms) {
+    let from = 0;
+    for (let start = lower.indexOf(term, from); start !== -1; start = lower.indexOf(term, from)) {
+      const end = start + term.length;
+      from = end;
+      if (isLetter(lower[start - 1]) || isLetter(lower[end]) || overlaps(start, end)) continue;
+      ranges.push({ start, end });
+    }
+  }
+  return toSegments(text, ranges);
+}
@@ -0,0 +1,66 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { Character } from '../types';
+import { AUDIO_SAMPLE_RATE_OUTPUT, TTS_MODEL_NAME } from '../constants';
+import { base64ToUint8Array, decodeAudioData } from './audioUtils';
+
+// Plays a coach's sample line in their Live API voice, so learners can pick one they
+// find easy to follow. Without an API key (offline demo) the browser's own voice for the
+// coach's language reads the line instead, which only approximates the coach.
+
+export interface VoicePreviewer {
+  play: (character: Character) => Promise<void>;
+  stop: () => void;
+}
+
+export function createVoicePreviewer(apiKey: string | null): VoicePreviewer {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  const cache = new Map<string, Uint8Array>(); // PCM by character ID
+  let ctx: AudioContext | null = null;
+  let source: AudioBufferSourceNode | null = null;
+
+  const stop = () => {
+    source?.stop();
+    source = null;
+    window.speechSynthesis?.cancel();
+  };
+
+  const fetchSample = async (character: Character): Promise<Uint8Array> => {
+    const cached = cache.get(character.id);
+    if (cached) return cached;
+    const response = await ai!.models.generateContent({
+      model: TTS_MODEL_NAME,
+      contents: [{ parts: [{ text: character.sampleLine }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: character.voiceName } } },
+      },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!data) throw new Error(`No preview audio for voice ${character.voiceName}`);
+    const pcm = base64ToUint8Array(data);
+    cache.set(character.id, pcm);
+    return pcm;
+  };
+
+  const play = async (character: Character) => {
+    stop();
+    if (!ai) {
+      const utterance = new SpeechSynthesisUtterance(character.sampleLine);
+      utterance.lang = character.targetLanguage;
+      window.speechSynthesis.speak(utterance);
+      return;
+    }
+    const pcm = await fetchSample(character);
+    if (!ctx) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      ctx = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_OUTPUT }) as AudioContext;
+    }
+    const buffer = await decodeAudioData(pcm, ctx, AUDIO_SAMPLE_RATE_OUTPUT);
+    source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+  };
+
+  return { play, stop };
+}
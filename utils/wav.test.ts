@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wav';
+
+const read = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+const text = (view: DataView, offset: number) =>
+  String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i)));
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM RIFF header', async () => {
+    const view = await read(encodeWav([new Float32Array(10)], 24000));
+    expect(text(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 20);
+    expect(text(view, 8)).toBe('WAVE');
+    expect(text(view, 12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(view, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(20);
+    expect(view.byteLength).toBe(44 + 20);
+  });
+
+  it('interleaves channels and pads the shorter one with silence', async () => {
+    const view = await read(encodeWav([Float32Array.from([1, -1, 0.5]), Float32Array.from([-0.5])], 16000));
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(28, true)).toBe(64000);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint32(40, true)).toBe(12);
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([32767, -16384, -32768, 0, 16383, 0]);
+  });
+
+  it('clips samples outside [-1, 1]', async () => {
+    const view = await read(encodeWav([Float32Array.from([2, -3])], 16000));
+    expect([view.getInt16(44, true), view.getInt16(46, true)]).toEqual([32767, -32768]);
+  });
+});
@@ -0,0 +1,47 @@
+import { float32ToInt16 } from './audioUtils';
+
+// Minimal RIFF/WAVE writer for 16-bit PCM.
+// Channels are given planar (one Float32Array per channel) and interleaved here.
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const frameCount = Math.max(0, ...channels.map(c => c.length));
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  // RIFF chunk descriptor
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // "fmt " sub-chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Sub-chunk size for PCM
+  view.setUint16(20, 1, true); // Audio format: 1 = linear PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true); // Bits per sample
+
+  // "data" sub-chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const pcm = channels.map(c => float32ToInt16(c));
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      view.setInt16(offset, pcm[ch][i] ?? 0, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
@@ -0,0 +1,119 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { LanguageOption, TargetLanguageCode, WordLookupResult } from '../types';
+import { getTargetLanguage, LOOKUP_MODEL_NAME } from '../constants';
+import { CachedLookup, LookupCache, loadLookupCache, saveLookupCache } from './lookupStorage';
+import { getPhoneticHint, normalizePhrase } from './pronunciation';
+
+// Translations for words tapped in coach messages. Results are cached on the device, so a
+// word only costs one request per language pair. Without an API key (offline demo) only
+// meanings the app already knows, from the curriculum or the session, are shown.
+
+export interface LookupRequest {
+  term: string;
+  language: TargetLanguageCode;
+  nativeLanguage: LanguageOption;
+  context?: string; // The sentence the term appeared in, to pick the right sense
+  fallbackGloss?: string; // Known meaning, used offline or when the request fails
+}
+
+export interface WordLookup {
+  lookup: (request: LookupRequest) => Promise<WordLookupResult>;
+}
+
+// Oldest entries are dropped beyond this
+const MAX_CACHED_LOOKUPS = 500;
+
+const LOOKUP_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    translation: { type: Type.STRING },
+    partOfSpeech: { type: Type.STRING },
+    pronunciation: { type: Type.STRING },
+  },
+  required: ['translation', 'partOfSpeech', 'pronunciation'],
+};
+
+const cacheKey = ({ term, language, nativeLanguage }: LookupRequest) =>
+  `${language}:${nativeLanguage.code}:${normalizePhrase(term).join(' ')}`;
+
+const buildLookupPrompt = ({ term, language, nativeLanguage, context }: LookupRequest) => {
+  const target = getTargetLanguage(language);
+  return [
+    `A ${nativeLanguage.name} speaker learning ${target.name} tapped "${term}" in a lesson.`,
+    context ? `It appeared in: "${context}"` : '',
+    `translation: its meaning in ${nativeLanguage.name}, as used there; a few words at most.`,
+    `partOfSpeech: in ${nativeLanguage.name}, e.g. noun, verb, adjective or phrase.`,
+    `pronunciation: how it sounds in ${target.name} (${target.region}), in IPA between slashes.`,
+  ].filter(Boolean).join('\n');
+};
+
+export function createWordLookup(apiKey: string | null): WordLookup {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  let cachePromise: Promise<LookupCache> | null = null;
+  const inFlight = new Map<string, Promise<WordLookupResult>>();
+
+  const getCache = () => {
+    cachePromise ??= loadLookupCache().catch(e => {
+      console.error("Failed to load lookup cache", e);
+      return {};
+    });
+    return cachePromise;
+  };
+
+  const offlineResult = (request: LookupRequest): WordLookupResult => ({
+    term: request.term,
+    translation: request.fallbackGloss ?? '',
+    pronunciation: getPhoneticHint(request.term, request.language),
+  });
+
+  const fetchLookup = async (request: LookupRequest, key: string): Promise<WordLookupResult> => {
+    const response = await ai!.models.generateContent({
+      model: LOOKUP_MODEL_NAME,
+      contents: buildLookupPrompt(request),
+      config: { responseMimeType: 'application/json', responseSchema: LOOKUP_SCHEMA },
+    });
+    const parsed = JSON.parse(response.text ?? '{}');
+    if (typeof parsed.translation !== 'string' || !parsed.translation.trim()) {
+      throw new Error(`No translation for "${request.term}"`);
+    }
+    const result: WordLookupResult = {
+      term: request.term,
+      translation: parsed.translation.trim(),
+      partOfSpeech: typeof parsed.partOfSpeech === 'string' && parsed.partOfSpeech.trim() ? parsed.partOfSpeech.trim() : undefined,
+      pronunciation: typeof parsed.pronunciation === 'string' && parsed.pronunciation.trim() ? parsed.pronunciation.trim() : undefined,
+    };
+
+    const cache = await getCache();
+    cache[key] = { ...result, cachedAt: Date.now() };
+    const keys = Object.keys(cache);
+    if (keys.length > MAX_CACHED_LOOKUPS) {
+      keys.sort((a, b) => cache[a].cachedAt - cache[b].cachedAt)
+        .slice(0, keys.length - MAX_CACHED_LOOKUPS)
+        .forEach(old => delete cache[old]);
+    }
+    saveLookupCache(cache).catch(e => console.error("Failed to save lookup cache", e));
+    return result;
+  };
+
+  const lookup = async (request: LookupRequest): Promise<WordLookupResult> => {
+    const key = cacheKey(request);
+    const cached: CachedLookup | undefined = (await getCache())[key];
+    if (cached) return { term: request.term, translation: cached.translation, partOfSpeech: cached.partOfSpeech, pronunciation: cached.pronunciation };
+    if (!ai) return offlineResult(request);
+
+    // Tapping the same word twice while the first request is out shares that request
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = fetchLookup(request, key).finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+    try {
+      return await pending;
+    } catch (e) {
+      if (request.fallbackGloss) return offlineResult(request);
+      throw e;
+    }
+  };
+
+  return { lookup };
+}